@@ -0,0 +1,141 @@
+import { mkdir, readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { getMetricsConfig } from './config.js';
+import { MetricsCollector } from './metrics-collector.js';
+import { writeFileAtomic } from './store.js';
+import type {
+  CollectorSnapshot,
+  MetricsData,
+  MetricsQuery,
+  WindowedMetricsData,
+} from './types.js';
+
+export interface FleetAggregatorOptions {
+  
+  publishIntervalMs?: number;
+  
+  maxSnapshotAgeMs?: number;
+}
+
+const SNAPSHOT_SUFFIX = '.snapshot.json';
+
+function isSnapshot(value: unknown): value is CollectorSnapshot {
+  if (!value || typeof value !== 'object') return false;
+  const snapshot = value as Record<string, unknown>;
+  return (
+    typeof snapshot.version === 'number' &&
+    Array.isArray(snapshot.instances) &&
+    typeof snapshot.takenAt === 'string' &&
+    typeof snapshot.startTime === 'string' &&
+    typeof snapshot.requests === 'number' &&
+    typeof snapshot.errors === 'number' &&
+    !!snapshot.requestDuration
+  );
+}
+
+
+export function aggregateSnapshots(
+  snapshots: CollectorSnapshot[],
+): CollectorSnapshot {
+  const collector = new MetricsCollector({ ephemeral: true });
+  snapshots.forEach((snapshot) => collector.merge(snapshot));
+  return collector.snapshot();
+}
+
+export class FleetAggregator {
+  private interval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly dir: string,
+    private readonly options: FleetAggregatorOptions = {},
+  ) {}
+
+
+  start(collector: MetricsCollector): void {
+    if (this.interval) return;
+    this.interval = setInterval(() => {
+      this.publish(collector).catch((error) => {
+        getMetricsConfig()
+          .getLogger()
+          .error('[FleetAggregator] Failed to publish snapshot', {
+            dir: this.dir,
+            error: error instanceof Error ? error.message : String(error),
+          });
+      });
+    }, this.options.publishIntervalMs ?? 60000);
+    this.interval.unref();
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+
+  async publish(collector: MetricsCollector): Promise<void> {
+    if (!collector.instanceId) {
+      throw new Error('[FleetAggregator] Ephemeral collectors cannot publish snapshots');
+    }
+    await collector.ready();
+    await mkdir(this.dir, { recursive: true });
+    const id = collector.instanceId.replace(/[^a-zA-Z0-9_.-]/g, '_');
+    await writeFileAtomic(
+      join(this.dir, `${id}${SNAPSHOT_SUFFIX}`),
+      JSON.stringify(collector.snapshot()),
+    );
+  }
+
+
+  async read(): Promise<CollectorSnapshot[]> {
+    const logger = getMetricsConfig().getLogger();
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const maxAge = this.options.maxSnapshotAgeMs;
+    const snapshots: CollectorSnapshot[] = [];
+    for (const file of files.filter((f) => f.endsWith(SNAPSHOT_SUFFIX)).sort()) {
+      try {
+        const parsed: unknown = JSON.parse(
+          await readFile(join(this.dir, file), 'utf-8'),
+        );
+        if (!isSnapshot(parsed)) {
+          throw new Error('Unexpected snapshot structure');
+        }
+        if (
+          maxAge !== undefined &&
+          Date.now() - new Date(parsed.takenAt).getTime() > maxAge
+        ) {
+          continue;
+        }
+        snapshots.push(parsed);
+      } catch (error) {
+        logger.warn('[FleetAggregator] Skipping unreadable snapshot', {
+          file,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return snapshots;
+  }
+
+  async aggregate(): Promise<CollectorSnapshot> {
+    return aggregateSnapshots(await this.read());
+  }
+
+
+  async getMetrics(): Promise<MetricsData>;
+  async getMetrics(query: MetricsQuery): Promise<WindowedMetricsData>;
+  async getMetrics(
+    query?: MetricsQuery,
+  ): Promise<MetricsData | WindowedMetricsData> {
+    const fleet = MetricsCollector.fromSnapshot(await this.aggregate());
+    return query ? fleet.getMetrics(query) : fleet.getMetrics();
+  }
+}
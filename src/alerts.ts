@@ -0,0 +1,379 @@
+import { getMetricsConfig } from './config.js';
+import { getEventStreamManager } from './event-stream.js';
+import type { EventStreamManager } from './event-stream.js';
+import type { MetricsCollector } from './metrics-collector.js';
+import type { MetricsData } from './types.js';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type AlertState = 'pending' | 'firing' | 'resolved';
+
+export type AlertComparison = '>' | '>=' | '<' | '<=';
+
+export type AlertMetricSelector =
+  | string
+  | ((metrics: MetricsData) => number | null | undefined);
+
+interface AlertRuleBase {
+  name: string;
+  
+  metric: AlertMetricSelector;
+  
+  severity?: AlertSeverity;
+  
+  for?: number;
+  
+  description?: string;
+  
+  labels?: Record<string, string>;
+}
+
+export interface ThresholdAlertRule extends AlertRuleBase {
+  type: 'threshold';
+  op: AlertComparison;
+  value: number;
+  
+  clearValue?: number;
+}
+
+export interface RateOfChangeAlertRule extends AlertRuleBase {
+  type: 'rate';
+  op: AlertComparison;
+  
+  value: number;
+  
+  windowMs: number;
+  
+  clearValue?: number;
+}
+
+export interface AbsenceAlertRule extends AlertRuleBase {
+  type: 'absence';
+  
+  windowMs: number;
+}
+
+export type AlertRule =
+  | ThresholdAlertRule
+  | RateOfChangeAlertRule
+  | AbsenceAlertRule;
+
+export interface Alert {
+  rule: string;
+  state: AlertState;
+  severity: AlertSeverity;
+  value: number | null;
+  threshold?: number;
+  message: string;
+  labels: Record<string, string>;
+  activeSince: number;
+  firedAt?: number;
+  resolvedAt?: number;
+}
+
+export interface AlertEngineOptions {
+  
+  rules?: AlertRule[];
+  
+  intervalMs?: number;
+  
+  now?: () => number;
+  
+  manager?: EventStreamManager;
+  
+  onAlert?: (alert: Alert) => void;
+}
+
+interface RuleState {
+  rule: AlertRule;
+  state: 'inactive' | 'pending' | 'firing';
+  activeSince: number;
+  firedAt?: number;
+  samples: Array<[timestamp: number, value: number]>;
+  lastValue: number | null;
+  lastChangeAt: number | null;
+}
+
+const COMPARISONS: AlertComparison[] = ['>', '>=', '<', '<='];
+
+function compare(
+  value: number,
+  op: AlertComparison,
+  threshold: number,
+): boolean {
+  switch (op) {
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+    case '<':
+      return value < threshold;
+    case '<=':
+      return value <= threshold;
+  }
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+
+export function resolveAlertMetric(
+  metrics: MetricsData,
+  selector: AlertMetricSelector,
+): number | null {
+  let value: unknown;
+  if (typeof selector === 'function') {
+    value = selector(metrics);
+  } else {
+    value = metrics;
+    for (const key of selector.split('.')) {
+      if (!value || typeof value !== 'object') return null;
+      value = (value as Record<string, unknown>)[key];
+    }
+  }
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+
+export function validateAlertRule(rule: AlertRule): AlertRule {
+  const fail = (reason: string): never => {
+    throw new Error(`[AlertEngine] Invalid rule "${rule?.name}": ${reason}`);
+  };
+  if (!rule || typeof rule.name !== 'string' || rule.name === '') {
+    throw new Error('[AlertEngine] Alert rules require a name');
+  }
+  if (typeof rule.metric !== 'string' && typeof rule.metric !== 'function') {
+    fail('metric must be a field path or selector function');
+  }
+  if (rule.for !== undefined && !(rule.for >= 0)) {
+    fail('for must be a non-negative duration');
+  }
+  if (!['threshold', 'rate', 'absence'].includes(rule.type)) {
+    fail(`unknown rule type ${(rule as { type?: unknown }).type}`);
+  }
+  if (rule.type !== 'threshold' && !isPositiveNumber(rule.windowMs)) {
+    fail('windowMs must be positive');
+  }
+  if (rule.type !== 'absence') {
+    if (!COMPARISONS.includes(rule.op)) fail(`unknown comparison ${rule.op}`);
+    if (typeof rule.value !== 'number') fail('value must be a number');
+    if (rule.clearValue !== undefined && typeof rule.clearValue !== 'number') {
+      fail('clearValue must be a number');
+    }
+  }
+  return rule;
+}
+
+export class AlertEngine {
+  private readonly rules = new Map<string, RuleState>();
+  private readonly now: () => number;
+  private readonly manager: EventStreamManager;
+  private interval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly options: AlertEngineOptions = {}) {
+    this.now = options.now ?? Date.now;
+    this.manager = options.manager ?? getEventStreamManager();
+    const rules = options.rules ?? getMetricsConfig().alertRules;
+    rules.forEach((rule) => this.addRule(rule));
+  }
+
+
+  addRule(rule: AlertRule): void {
+    validateAlertRule(rule);
+    if (this.rules.has(rule.name)) {
+      throw new Error(`[AlertEngine] Duplicate alert rule "${rule.name}"`);
+    }
+    this.rules.set(rule.name, {
+      rule,
+      state: 'inactive',
+      activeSince: 0,
+      samples: [],
+      lastValue: null,
+      lastChangeAt: null,
+    });
+  }
+
+  removeRule(name: string): boolean {
+    return this.rules.delete(name);
+  }
+
+
+  start(collector: MetricsCollector): void {
+    if (this.interval) return;
+    const intervalMs =
+      this.options.intervalMs ?? getMetricsConfig().alertEvaluationIntervalMs;
+    this.interval = setInterval(() => {
+      try {
+        this.evaluate(collector.getMetrics());
+      } catch (error) {
+        getMetricsConfig()
+          .getLogger()
+          .error('[AlertEngine] Failed to evaluate alert rules', {
+            error: error instanceof Error ? error.message : String(error),
+          });
+      }
+    }, intervalMs);
+    this.interval.unref();
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+
+  evaluate(metrics: MetricsData, now: number = this.now()): Alert[] {
+    const transitions: Alert[] = [];
+    for (const state of this.rules.values()) {
+      const value = resolveAlertMetric(metrics, state.rule.metric);
+      const alert = this.step(state, value, now);
+      if (alert) transitions.push(alert);
+    }
+    transitions.forEach((alert) => this.publish(alert));
+    return transitions;
+  }
+
+
+  getAlerts(): Alert[] {
+    const alerts: Alert[] = [];
+    for (const state of this.rules.values()) {
+      if (state.state === 'inactive') continue;
+      alerts.push(this.describe(state, state.state, state.lastValue));
+    }
+    return alerts;
+  }
+
+  private step(
+    state: RuleState,
+    value: number | null,
+    now: number,
+  ): Alert | null {
+    const observed = this.observe(state, value, now);
+    state.lastValue = value;
+
+    if (state.state === 'firing') {
+      if (!this.shouldResolve(state.rule, observed, now, state)) return null;
+      const alert = this.describe(state, 'resolved', value);
+      alert.resolvedAt = now;
+      state.state = 'inactive';
+      state.firedAt = undefined;
+      return alert;
+    }
+
+    if (!this.isActive(state.rule, observed, now, state)) {
+      state.state = 'inactive';
+      return null;
+    }
+    if (state.state === 'inactive') {
+      state.state = 'pending';
+      state.activeSince = now;
+    }
+    if (now - state.activeSince < (state.rule.for ?? 0)) return null;
+
+    state.state = 'firing';
+    state.firedAt = now;
+    return this.describe(state, 'firing', value);
+  }
+
+  private observe(
+    state: RuleState,
+    value: number | null,
+    now: number,
+  ): number | null {
+    const rule = state.rule;
+    if (rule.type === 'absence') {
+      const changed =
+        state.lastChangeAt === null || value !== state.lastValue;
+      if (value !== null && changed) state.lastChangeAt = now;
+      return value;
+    }
+    if (rule.type !== 'rate') return value;
+
+    if (value === null) {
+      state.samples = [];
+      return null;
+    }
+    state.samples.push([now, value]);
+    const windowStart = now - rule.windowMs;
+    while (state.samples.length > 1 && state.samples[0][0] < windowStart) {
+      state.samples.shift();
+    }
+    const [since, first] = state.samples[0];
+    if (now === since) return null;
+    return ((value - first) / (now - since)) * 1000;
+  }
+
+  private isActive(
+    rule: AlertRule,
+    observed: number | null,
+    now: number,
+    state: RuleState,
+  ): boolean {
+    if (rule.type === 'absence') {
+      const since = state.lastChangeAt ?? state.activeSince;
+      return observed === null || now - since >= rule.windowMs;
+    }
+    return observed !== null && compare(observed, rule.op, rule.value);
+  }
+
+  private shouldResolve(
+    rule: AlertRule,
+    observed: number | null,
+    now: number,
+    state: RuleState,
+  ): boolean {
+    if (rule.type === 'absence') {
+      return !this.isActive(rule, observed, now, state);
+    }
+    if (observed === null) return false;
+    return !compare(observed, rule.op, rule.clearValue ?? rule.value);
+  }
+
+  private describe(
+    state: RuleState,
+    alertState: AlertState,
+    value: number | null,
+  ): Alert {
+    const rule = state.rule;
+    const threshold = rule.type === 'absence' ? undefined : rule.value;
+    return {
+      rule: rule.name,
+      state: alertState,
+      severity: rule.severity ?? 'warning',
+      value,
+      ...(threshold !== undefined && { threshold }),
+      message: rule.description ?? this.defaultMessage(rule, alertState),
+      labels: { ...rule.labels },
+      activeSince: state.activeSince,
+      ...(state.firedAt !== undefined && { firedAt: state.firedAt }),
+    };
+  }
+
+  private defaultMessage(rule: AlertRule, alertState: AlertState): string {
+    const metric = typeof rule.metric === 'string' ? rule.metric : rule.name;
+    const condition =
+      rule.type === 'absence'
+        ? `has not changed for ${rule.windowMs}ms`
+        : rule.type === 'rate'
+          ? `rate ${rule.op} ${rule.value}/s`
+          : `${rule.op} ${rule.value}`;
+    return `${metric} ${condition} (${alertState})`;
+  }
+
+  private publish(alert: Alert): void {
+    this.manager.broadcastAlert(alert);
+    try {
+      this.options.onAlert?.(alert);
+    } catch (error) {
+      getMetricsConfig()
+        .getLogger()
+        .error('[AlertEngine] Alert listener failed', {
+          rule: alert.rule,
+          error: error instanceof Error ? error.message : String(error),
+        });
+    }
+  }
+}
@@ -0,0 +1,339 @@
+import type { Alert, AlertSeverity } from './alerts.js';
+import { getMetricsConfig } from './config.js';
+import { getEventStreamManager } from './event-stream.js';
+import type { EventStreamManager } from './event-stream.js';
+import type { MetricsCollector } from './metrics-collector.js';
+import { ROLLUP_RESOLUTION_MS } from './rollups.js';
+import type { RollupResolution, TimeSeriesMetric } from './types.js';
+
+export type AnomalyBaseline = 'ewma' | 'seasonal';
+
+export type AnomalyScoring = 'zscore' | 'mad';
+
+export type AnomalyDirection = 'spike' | 'drop';
+
+export interface AnomalyRule {
+  name: string;
+  metric: Extract<TimeSeriesMetric, 'pageViews' | 'requests' | 'errors'>;
+  baseline: AnomalyBaseline;
+  scoring: AnomalyScoring;
+  
+  threshold?: number;
+  
+  stepMs?: number;
+  
+  alpha?: number;
+  
+  history?: number;
+  
+  seasonLength?: number;
+  
+  seasons?: number;
+  
+  minCount?: number;
+  
+  directions?: AnomalyDirection[];
+  severity?: AlertSeverity;
+  labels?: Record<string, string>;
+}
+
+export interface AnomalyScore {
+  value: number;
+  expected: number;
+  spread: number;
+  score: number;
+  changePercent: number;
+  direction: AnomalyDirection;
+}
+
+export interface AnomalyAlert extends Alert {
+  kind: 'anomaly';
+  metric: AnomalyRule['metric'];
+  direction: AnomalyDirection;
+  expected: number;
+  score: number;
+  changePercent: number;
+  bucketStart: number;
+}
+
+export interface AnomalyDetectorOptions {
+  
+  rules: AnomalyRule[];
+  
+  intervalMs?: number;
+  
+  now?: () => number;
+  
+  manager?: EventStreamManager;
+  
+  onAnomaly?: (alert: AnomalyAlert) => void;
+}
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+const MAD_SCALE = 0.6745;
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function ewma(values: number[], alpha: number): { mean: number; std: number } {
+  let avg = values[0];
+  let variance = 0;
+  for (const value of values.slice(1)) {
+    const diff = value - avg;
+    avg += alpha * diff;
+    variance = (1 - alpha) * (variance + alpha * diff * diff);
+  }
+  return { mean: avg, std: Math.sqrt(variance) };
+}
+
+function historyLength(rule: AnomalyRule): number {
+  return rule.baseline === 'seasonal'
+    ? (rule.seasonLength ?? 168) * (rule.seasons ?? 2)
+    : (rule.history ?? 24);
+}
+
+
+export function validateAnomalyRule(rule: AnomalyRule): AnomalyRule {
+  const stepMs = rule.stepMs ?? HOUR_MS;
+  if (!(stepMs > 0)) {
+    throw new Error(
+      `[AnomalyDetector] Invalid rule "${rule.name}": stepMs must be positive`,
+    );
+  }
+  const retention = getMetricsConfig().rollupRetention;
+  const span = (historyLength(rule) + 1) * stepMs;
+  const resolutions = (
+    Object.keys(ROLLUP_RESOLUTION_MS) as RollupResolution[]
+  ).filter((resolution) => ROLLUP_RESOLUTION_MS[resolution] <= stepMs);
+  const coarsest = resolutions[resolutions.length - 1];
+  if (!coarsest) return rule;
+
+  const covered = resolutions.some(
+    (resolution) =>
+      span <= (retention[resolution] - 1) * ROLLUP_RESOLUTION_MS[resolution],
+  );
+  if (!covered) {
+    const needed = Math.ceil(span / ROLLUP_RESOLUTION_MS[coarsest]) + 1;
+    throw new Error(
+      `[AnomalyDetector] Invalid rule "${rule.name}": history needs rollupRetention.${coarsest} of at least ${needed}, got ${retention[coarsest]}`,
+    );
+  }
+  return rule;
+}
+
+
+export function baselineSamples(
+  series: number[],
+  rule: AnomalyRule,
+): number[] {
+  const current = series.length - 1;
+  if (rule.baseline === 'ewma') {
+    return series.slice(Math.max(0, current - historyLength(rule)), current);
+  }
+  const period = rule.seasonLength ?? 168;
+  const samples: number[] = [];
+  for (let k = 1; k <= (rule.seasons ?? 2); k++) {
+    if (current - k * period >= 0) samples.push(series[current - k * period]);
+  }
+  return samples;
+}
+
+
+export function scoreAnomaly(
+  series: number[],
+  rule: AnomalyRule,
+): AnomalyScore | null {
+  const value = series[series.length - 1];
+  const samples = baselineSamples(series, rule);
+  if (value === undefined || samples.length === 0) return null;
+
+  let expected: number;
+  let spread: number;
+  if (rule.scoring === 'mad') {
+    expected =
+      rule.baseline === 'ewma'
+        ? ewma(samples, rule.alpha ?? 0.3).mean
+        : median(samples);
+    spread = median(samples.map((v) => Math.abs(v - expected))) / MAD_SCALE;
+  } else if (rule.baseline === 'ewma') {
+    ({ mean: expected, std: spread } = ewma(samples, rule.alpha ?? 0.3));
+  } else {
+    expected = mean(samples);
+    spread = Math.sqrt(mean(samples.map((v) => (v - expected) ** 2)));
+  }
+
+  spread = Math.max(spread, Math.sqrt(Math.max(expected, 1)));
+  const score = (value - expected) / spread;
+  return {
+    value,
+    expected,
+    spread,
+    score,
+    changePercent: expected > 0 ? ((value - expected) / expected) * 100 : 0,
+    direction: score >= 0 ? 'spike' : 'drop',
+  };
+}
+
+
+export function isAnomalous(score: AnomalyScore, rule: AnomalyRule): boolean {
+  const directions = rule.directions ?? ['spike', 'drop'];
+  return (
+    Math.abs(score.score) >= (rule.threshold ?? 3) &&
+    Math.max(score.value, score.expected) >= (rule.minCount ?? 10) &&
+    directions.includes(score.direction)
+  );
+}
+
+function comparisonLabel(rule: AnomalyRule): string {
+  if (rule.baseline === 'ewma') return 'recent average';
+  const period = (rule.seasonLength ?? 168) * (rule.stepMs ?? HOUR_MS);
+  const unit = (rule.stepMs ?? HOUR_MS) === HOUR_MS ? 'hour' : 'time';
+  if (period === WEEK_MS) return `same ${unit} last week`;
+  if (period === DAY_MS) return `same ${unit} yesterday`;
+  return 'seasonal baseline';
+}
+
+
+export function describeAnomaly(
+  score: AnomalyScore,
+  rule: AnomalyRule,
+): string {
+  const verb = score.direction === 'spike' ? 'spiked' : 'dropped';
+  const change = Math.round(Math.abs(score.changePercent));
+  return `${rule.metric} ${verb} ${change}% vs ${comparisonLabel(rule)}`;
+}
+
+export class AnomalyDetector {
+  private readonly rules: AnomalyRule[];
+  private readonly now: () => number;
+  private readonly manager: EventStreamManager;
+  private readonly firing = new Map<string, AnomalyAlert>();
+  private interval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly options: AnomalyDetectorOptions) {
+    options.rules.forEach((rule) => validateAnomalyRule(rule));
+    this.rules = options.rules;
+    this.now = options.now ?? Date.now;
+    this.manager = options.manager ?? getEventStreamManager();
+  }
+
+
+  start(collector: MetricsCollector): void {
+    if (this.interval) return;
+    this.interval = setInterval(() => {
+      try {
+        this.evaluate(collector);
+      } catch (error) {
+        getMetricsConfig()
+          .getLogger()
+          .error('[AnomalyDetector] Failed to evaluate anomaly rules', {
+            error: error instanceof Error ? error.message : String(error),
+          });
+      }
+    }, this.options.intervalMs ?? 60000);
+    this.interval.unref();
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+
+  evaluate(
+    collector: MetricsCollector,
+    now: number = this.now(),
+  ): AnomalyAlert[] {
+    const transitions: AnomalyAlert[] = [];
+    for (const rule of this.rules) {
+      const stepMs = rule.stepMs ?? HOUR_MS;
+      const to = Math.floor(now / stepMs) * stepMs;
+      const from = to - (historyLength(rule) + 1) * stepMs;
+      const series = collector
+        .getTimeSeries(rule.metric, { from, to, step: stepMs })
+        .map(([, value]) => value);
+      const alert = this.check(rule, series, to - stepMs, now);
+      if (alert) transitions.push(alert);
+    }
+    transitions.forEach((alert) => this.publish(alert));
+    return transitions;
+  }
+
+
+  getAnomalies(): AnomalyAlert[] {
+    return Array.from(this.firing.values());
+  }
+
+  private check(
+    rule: AnomalyRule,
+    series: number[],
+    bucketStart: number,
+    now: number,
+  ): AnomalyAlert | null {
+    const score = scoreAnomaly(series, rule);
+    const active = this.firing.get(rule.name);
+    if (!score) return null;
+
+    if (isAnomalous(score, rule)) {
+      if (active) return null;
+      const alert: AnomalyAlert = {
+        kind: 'anomaly',
+        rule: rule.name,
+        state: 'firing',
+        severity: rule.severity ?? 'warning',
+        metric: rule.metric,
+        direction: score.direction,
+        value: score.value,
+        expected: score.expected,
+        score: score.score,
+        changePercent: score.changePercent,
+        bucketStart,
+        message: describeAnomaly(score, rule),
+        labels: { ...rule.labels },
+        activeSince: bucketStart,
+        firedAt: now,
+      };
+      this.firing.set(rule.name, alert);
+      return alert;
+    }
+
+    if (!active) return null;
+    this.firing.delete(rule.name);
+    return {
+      ...active,
+      state: 'resolved',
+      value: score.value,
+      expected: score.expected,
+      score: score.score,
+      changePercent: score.changePercent,
+      bucketStart,
+      message: `${rule.metric} back within expected range`,
+      resolvedAt: now,
+    };
+  }
+
+  private publish(alert: AnomalyAlert): void {
+    this.manager.broadcastAlert(alert);
+    try {
+      this.options.onAnomaly?.(alert);
+    } catch (error) {
+      getMetricsConfig()
+        .getLogger()
+        .error('[AnomalyDetector] Anomaly listener failed', {
+          rule: alert.rule,
+          error: error instanceof Error ? error.message : String(error),
+        });
+    }
+  }
+}
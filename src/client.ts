@@ -0,0 +1,244 @@
+import type { ClientBatch, ClientEvent, WebVitalName } from './types.js';
+
+type Listener = () => void;
+
+export interface BrowserEnvironment {
+  location: { pathname: string };
+  document: {
+    referrer: string;
+    visibilityState: string;
+    addEventListener(type: string, listener: Listener): void;
+    removeEventListener(type: string, listener: Listener): void;
+  };
+  history: {
+    pushState(...args: unknown[]): void;
+    replaceState(...args: unknown[]): void;
+  };
+  navigator: { sendBeacon?(url: string, data: string): boolean };
+  sessionStorage?: {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+  };
+  crypto?: { randomUUID?(): string };
+  addEventListener(type: string, listener: Listener): void;
+  removeEventListener(type: string, listener: Listener): void;
+}
+
+export interface MetricsClientOptions {
+  
+  endpoint?: string;
+  
+  batchSize?: number;
+  
+  flushIntervalMs?: number;
+  
+  sessionTimeoutMs?: number;
+  
+  storageKey?: string;
+  
+  trackNavigation?: boolean;
+  
+  environment?: BrowserEnvironment;
+  now?: () => number;
+}
+
+interface StoredSession {
+  id: string;
+  lastSeen: number;
+}
+
+function generateSessionId(env: BrowserEnvironment): string {
+  const uuid = env.crypto?.randomUUID?.();
+  if (uuid) return uuid;
+  let id = '';
+  for (let i = 0; i < 32; i++) {
+    id += Math.floor(Math.random() * 16).toString(16);
+  }
+  return id;
+}
+
+export class MetricsClient {
+  private readonly env: BrowserEnvironment;
+  private readonly endpoint: string;
+  private readonly batchSize: number;
+  private readonly storageKey: string;
+  private readonly now: () => number;
+  private queue: ClientEvent[] = [];
+  private session: StoredSession | null = null;
+  private batchSessionId: string | null = null;
+  private lastPath: string | null = null;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private restoreHistory: (() => void) | null = null;
+
+  constructor(private readonly options: MetricsClientOptions = {}) {
+    this.env =
+      options.environment ?? (globalThis as unknown as BrowserEnvironment);
+    this.endpoint = options.endpoint ?? '/api/metrics/collect';
+    this.batchSize = Math.max(1, options.batchSize ?? 20);
+    this.storageKey = options.storageKey ?? 'tinyland-metrics-session';
+    this.now = options.now ?? Date.now;
+  }
+
+  get sessionId(): string | null {
+    return this.session?.id ?? null;
+  }
+
+  get running(): boolean {
+    return this.interval !== null;
+  }
+
+  
+  start(): void {
+    if (this.interval) return;
+    if (this.options.trackNavigation ?? true) {
+      this.patchHistory();
+      this.env.addEventListener('popstate', this.onNavigate);
+    }
+    this.env.addEventListener('pagehide', this.onPageHide);
+    this.env.document.addEventListener('visibilitychange', this.onHide);
+    this.interval = setInterval(
+      () => this.flush(),
+      this.options.flushIntervalMs ?? 5000,
+    );
+    this.trackPageView();
+  }
+
+  stop(): void {
+    if (!this.interval) return;
+    clearInterval(this.interval);
+    this.interval = null;
+    this.restoreHistory?.();
+    this.restoreHistory = null;
+    this.env.removeEventListener('popstate', this.onNavigate);
+    this.env.removeEventListener('pagehide', this.onPageHide);
+    this.env.document.removeEventListener('visibilitychange', this.onHide);
+    this.flush();
+  }
+
+  trackPageView(path: string = this.env.location.pathname): void {
+    const referrer =
+      this.lastPath === null ? this.env.document.referrer : undefined;
+    this.lastPath = path;
+    this.enqueue({
+      type: 'pageView',
+      path,
+      ...(referrer && { referrer }),
+    });
+  }
+
+  trackError(
+    error: { type?: string; message?: string; path?: string } = {},
+  ): void {
+    this.enqueue({
+      type: 'error',
+      path: error.path ?? this.env.location.pathname,
+      ...(error.type !== undefined && { errorType: error.type }),
+      ...(error.message !== undefined && { message: error.message }),
+    });
+  }
+
+  trackVital(name: WebVitalName, value: number, path?: string): void {
+    this.enqueue({
+      type: 'vital',
+      name,
+      value,
+      path: path ?? this.env.location.pathname,
+    });
+  }
+
+  
+  flush(): void {
+    if (this.queue.length === 0 || !this.batchSessionId) return;
+    const batch: ClientBatch = {
+      sessionId: this.batchSessionId,
+      events: this.queue,
+    };
+    this.queue = [];
+    const body = JSON.stringify(batch);
+
+    const { navigator } = this.env;
+    if (navigator.sendBeacon?.(this.endpoint, body)) return;
+    fetch(this.endpoint, { method: 'POST', body, keepalive: true }).catch(
+      () => undefined,
+    );
+  }
+
+  private enqueue(event: ClientEvent): void {
+    const sessionId = this.touchSession();
+    if (this.batchSessionId !== sessionId) {
+      this.flush();
+      this.batchSessionId = sessionId;
+    }
+    this.queue.push(event);
+    if (this.queue.length >= this.batchSize) this.flush();
+  }
+
+  private touchSession(): string {
+    const now = this.now();
+    const timeout = this.options.sessionTimeoutMs ?? 30 * 60 * 1000;
+    const session = this.session ?? this.readSession();
+    this.session =
+      session && now - session.lastSeen < timeout
+        ? { id: session.id, lastSeen: now }
+        : { id: generateSessionId(this.env), lastSeen: now };
+    this.writeSession(this.session);
+    return this.session.id;
+  }
+
+  private writeSession(session: StoredSession): boolean {
+    try {
+      this.env.sessionStorage?.setItem(
+        this.storageKey,
+        JSON.stringify(session),
+      );
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private readSession(): StoredSession | null {
+    try {
+      const raw = this.env.sessionStorage?.getItem(this.storageKey);
+      const stored = raw ? (JSON.parse(raw) as Partial<StoredSession>) : null;
+      return typeof stored?.id === 'string' &&
+        typeof stored.lastSeen === 'number'
+        ? { id: stored.id, lastSeen: stored.lastSeen }
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private patchHistory(): void {
+    const { history } = this.env;
+    const pushState = history.pushState;
+    const replaceState = history.replaceState;
+    const onNavigate = this.onNavigate;
+    history.pushState = function (...args: unknown[]) {
+      pushState.apply(this, args);
+      onNavigate();
+    };
+    history.replaceState = function (...args: unknown[]) {
+      replaceState.apply(this, args);
+      onNavigate();
+    };
+    this.restoreHistory = () => {
+      history.pushState = pushState;
+      history.replaceState = replaceState;
+    };
+  }
+
+  private readonly onNavigate = (): void => {
+    const path = this.env.location.pathname;
+    if (path !== this.lastPath) this.trackPageView(path);
+  };
+
+  private readonly onHide = (): void => {
+    if (this.env.document.visibilityState === 'hidden') this.flush();
+  };
+
+  private readonly onPageHide = (): void => {
+    this.flush();
+  };
+}
@@ -0,0 +1,185 @@
+import { jsonResponse, readRequestBody } from './http.js';
+import { parseVitalsPayload } from './vitals.js';
+import type {
+  ClientBatch,
+  ClientEvent,
+  TrackErrorInput,
+  WebVitalSample,
+} from './types.js';
+
+export interface CollectTarget {
+  trackPageView(
+    sessionId: string,
+    path: string,
+    userId?: string,
+    referrer?: string,
+    userAgent?: string,
+  ): void;
+  trackError(error: TrackErrorInput): void;
+  trackWebVitals(samples: WebVitalSample[]): void;
+}
+
+export interface CollectHandlerOptions {
+  
+  maxBodyBytes?: number;
+  
+  maxBatchSize?: number;
+}
+
+export interface ParsedClientBatch extends ClientBatch {
+  rejected: number;
+}
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+const MAX_PATH_LENGTH = 2048;
+const MAX_TEXT_LENGTH = 1024;
+
+function optionalText(value: unknown, max: number): string | undefined {
+  return typeof value === 'string' && value !== '' && value.length <= max
+    ? value
+    : undefined;
+}
+
+function isPath(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    value.startsWith('/') &&
+    value.length <= MAX_PATH_LENGTH
+  );
+}
+
+function toClientEvent(entry: unknown): ClientEvent | null {
+  if (!entry || typeof entry !== 'object') return null;
+  const record = entry as Record<string, unknown>;
+  switch (record.type) {
+    case 'pageView': {
+      if (!isPath(record.path)) return null;
+      const referrer = optionalText(record.referrer, MAX_PATH_LENGTH);
+      return {
+        type: 'pageView',
+        path: record.path,
+        ...(referrer !== undefined && { referrer }),
+      };
+    }
+    case 'error': {
+      if (record.path !== undefined && !isPath(record.path)) return null;
+      const errorType = optionalText(record.errorType, MAX_TEXT_LENGTH);
+      const message = optionalText(record.message, MAX_TEXT_LENGTH);
+      return {
+        type: 'error',
+        ...(record.path !== undefined && { path: record.path }),
+        ...(errorType !== undefined && { errorType }),
+        ...(message !== undefined && { message }),
+      };
+    }
+    case 'vital': {
+      if (!isPath(record.path)) return null;
+      const [sample] = parseVitalsPayload(record).samples;
+      return sample
+        ? {
+            type: 'vital',
+            path: sample.path,
+            name: sample.name,
+            value: sample.value,
+          }
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+
+export function parseClientBatch(payload: unknown): ParsedClientBatch | null {
+  if (!payload || typeof payload !== 'object') return null;
+  const record = payload as Record<string, unknown>;
+  if (
+    typeof record.sessionId !== 'string' ||
+    !SESSION_ID_PATTERN.test(record.sessionId) ||
+    !Array.isArray(record.events)
+  ) {
+    return null;
+  }
+
+  const events: ClientEvent[] = [];
+  for (const entry of record.events) {
+    const event = toClientEvent(entry);
+    if (event) events.push(event);
+  }
+  return {
+    sessionId: record.sessionId,
+    events,
+    rejected: record.events.length - events.length,
+  };
+}
+
+
+export function createCollectHandler(
+  collector: CollectTarget,
+  options: CollectHandlerOptions = {},
+): (request: Request) => Promise<Response> {
+  const maxBodyBytes = options.maxBodyBytes ?? 64 * 1024;
+  const maxBatchSize = options.maxBatchSize ?? 100;
+
+  return async (request: Request) => {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', {
+        status: 405,
+        headers: { Allow: 'POST' },
+      });
+    }
+
+    const body = await readRequestBody(request, maxBodyBytes);
+    if (body === null) {
+      return jsonResponse(413, { error: 'Payload too large' });
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return jsonResponse(400, { error: 'Invalid JSON' });
+    }
+    const batch = parseClientBatch(payload);
+    if (!batch) {
+      return jsonResponse(400, { error: 'Invalid batch' });
+    }
+    if (batch.events.length + batch.rejected > maxBatchSize) {
+      return jsonResponse(413, { error: 'Too many events' });
+    }
+
+    const userAgent = request.headers.get('user-agent') ?? undefined;
+    const vitals: WebVitalSample[] = [];
+    for (const event of batch.events) {
+      if (event.type === 'pageView') {
+        collector.trackPageView(
+          batch.sessionId,
+          event.path,
+          undefined,
+          event.referrer,
+          userAgent,
+        );
+      } else if (event.type === 'error') {
+        collector.trackError({
+          sessionId: batch.sessionId,
+          type: event.errorType,
+          path: event.path,
+          message: event.message,
+        });
+      } else {
+        vitals.push({
+          name: event.name,
+          value: event.value,
+          path: event.path,
+          sessionId: batch.sessionId,
+        });
+      }
+    }
+    if (vitals.length > 0) collector.trackWebVitals(vitals);
+
+    return jsonResponse(202, {
+      accepted: batch.events.length,
+      rejected: batch.rejected,
+    });
+  };
+}
@@ -8,6 +8,12 @@
 
 
 
+import { hostname } from 'os';
+import { DEFAULT_DURATION_BUCKETS_MS } from './histogram.js';
+import { DEFAULT_HLL_PRECISION } from './hyperloglog.js';
+import type { AlertRule } from './alerts.js';
+import type { MetricsStore, MetricsStoreKind } from './store.js';
+
 export interface MetricsLogger {
   info: (msg: string, meta?: Record<string, unknown>) => void;
   warn: (msg: string, meta?: Record<string, unknown>) => void;
@@ -16,10 +22,44 @@ export interface MetricsLogger {
 }
 
 
+export interface OtlpExporterConfig {
+  
+  endpoint: string;
+  
+  headers?: Record<string, string>;
+  
+  intervalMs?: number;
+  
+  timeoutMs?: number;
+  
+  maxRetries?: number;
+  
+  initialBackoffMs?: number;
+  
+  maxBackoffMs?: number;
+  
+  serviceName?: string;
+  
+  resourceAttributes?: Record<string, string>;
+}
+
+
+export interface RollupRetentionConfig {
+  
+  minute?: number;
+  
+  hour?: number;
+  
+  day?: number;
+}
+
+
 export interface MetricsConfig {
   
   dataDir?: string;
   
+  instanceId?: string;
+  
   isDevelopment?: boolean;
   
   getLogger?: () => MetricsLogger;
@@ -29,6 +69,46 @@ export interface MetricsConfig {
   persistIntervalMs?: number;
   
   registerShutdownHook?: boolean;
+  
+  requestDurationBucketsMs?: number[];
+  
+  maxSeriesPerMetric?: number;
+  
+  maxErrorGroups?: number;
+  
+  rollupRetention?: RollupRetentionConfig;
+  
+  store?: MetricsStoreKind | MetricsStore;
+  
+  sqliteFile?: string | null;
+  
+  journal?: boolean;
+  
+  journalFile?: string | null;
+  
+  uniqueVisitors?: 'exact' | 'hyperloglog';
+  
+  hyperLogLogPrecision?: number;
+  
+  otlp?: OtlpExporterConfig | null;
+  
+  eventReplayBufferSize?: number;
+  
+  eventRetryMs?: number | null;
+  
+  eventHeartbeatIntervalMs?: number;
+  
+  eventHeartbeatMode?: 'comment' | 'event';
+  
+  eventClientTimeoutMs?: number;
+  
+  eventSlowClientPolicy?: 'drop-oldest' | 'coalesce' | 'disconnect';
+  
+  eventClientQueueSize?: number;
+  
+  alertRules?: AlertRule[];
+  
+  alertEvaluationIntervalMs?: number;
 }
 
 
@@ -40,7 +120,12 @@ const noopLogger: MetricsLogger = {
 };
 
 
-export type ResolvedMetricsConfig = Required<MetricsConfig>;
+export type ResolvedMetricsConfig = Omit<
+  Required<MetricsConfig>,
+  'rollupRetention'
+> & {
+  rollupRetention: Required<RollupRetentionConfig>;
+};
 
 let config: MetricsConfig = {};
 
@@ -58,11 +143,37 @@ export function configureMetrics(c: MetricsConfig): void {
 export function getMetricsConfig(): ResolvedMetricsConfig {
   return {
     dataDir: config.dataDir ?? 'data/metrics',
+    instanceId: config.instanceId ?? `${hostname()}-${process.pid}`,
     isDevelopment: config.isDevelopment ?? false,
     getLogger: config.getLogger ?? (() => noopLogger),
     cleanupIntervalMs: config.cleanupIntervalMs ?? 3600000,
     persistIntervalMs: config.persistIntervalMs ?? 300000,
     registerShutdownHook: config.registerShutdownHook ?? false,
+    requestDurationBucketsMs:
+      config.requestDurationBucketsMs ?? DEFAULT_DURATION_BUCKETS_MS,
+    maxSeriesPerMetric: config.maxSeriesPerMetric ?? 1000,
+    maxErrorGroups: config.maxErrorGroups ?? 500,
+    rollupRetention: {
+      minute: config.rollupRetention?.minute ?? 180,
+      hour: config.rollupRetention?.hour ?? 24 * 15,
+      day: config.rollupRetention?.day ?? 90,
+    },
+    store: config.store ?? 'json',
+    sqliteFile: config.sqliteFile ?? null,
+    journal: config.journal ?? false,
+    journalFile: config.journalFile ?? null,
+    uniqueVisitors: config.uniqueVisitors ?? 'exact',
+    hyperLogLogPrecision: config.hyperLogLogPrecision ?? DEFAULT_HLL_PRECISION,
+    otlp: config.otlp ?? null,
+    eventReplayBufferSize: config.eventReplayBufferSize ?? 100,
+    eventRetryMs: config.eventRetryMs ?? null,
+    eventHeartbeatIntervalMs: config.eventHeartbeatIntervalMs ?? 15000,
+    eventHeartbeatMode: config.eventHeartbeatMode ?? 'comment',
+    eventClientTimeoutMs: config.eventClientTimeoutMs ?? 60000,
+    eventSlowClientPolicy: config.eventSlowClientPolicy ?? 'drop-oldest',
+    eventClientQueueSize: config.eventClientQueueSize ?? 100,
+    alertRules: config.alertRules ?? [],
+    alertEvaluationIntervalMs: config.alertEvaluationIntervalMs ?? 15000,
   };
 }
 
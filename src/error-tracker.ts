@@ -0,0 +1,207 @@
+import { createHash } from 'crypto';
+import {
+  mergeVisitors,
+  restoreVisitors,
+  serializeVisitors,
+} from './hyperloglog.js';
+import type {
+  ErrorTypeStats,
+  SerializedErrorGroup,
+  TopError,
+  TrackErrorInput,
+  VisitorSet,
+} from './types.js';
+
+export const UNKNOWN_ERROR_TYPE = 'unknown';
+
+export interface ErrorGroup {
+  fingerprint: string;
+  type: string;
+  message?: string;
+  count: number;
+  paths: Map<string, number>;
+  statuses: Map<number, number>;
+  sessions: VisitorSet;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+
+export function normalizeErrorMessage(message: string): string {
+  return message
+    .replace(
+      /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi,
+      '<uuid>',
+    )
+    .replace(/\b0x[0-9a-f]+\b|\b[0-9a-f]{12,}\b/gi, '<hex>')
+    .replace(/(["'`])(?:(?!\1).)*\1/g, '<str>')
+    .replace(/\d+(\.\d+)?/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+
+export function fingerprintError(type: string, message?: string): string {
+  return createHash('sha1')
+    .update(`${type}\n${message ? normalizeErrorMessage(message) : ''}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function increment<K>(counts: Map<K, number>, key: K, by = 1): void {
+  counts.set(key, (counts.get(key) ?? 0) + by);
+}
+
+export class ErrorTracker {
+  private groups = new Map<string, ErrorGroup>();
+
+  constructor(
+    private readonly maxGroups: number,
+    private readonly createVisitors: () => VisitorSet = () =>
+      new Set<string>(),
+  ) {}
+
+  record(error: TrackErrorInput, at: number = Date.now()): ErrorGroup {
+    const type = error.type || UNKNOWN_ERROR_TYPE;
+    const fingerprint = fingerprintError(type, error.message);
+    let group = this.groups.get(fingerprint);
+    if (!group) {
+      group = {
+        fingerprint,
+        type,
+        message: error.message,
+        count: 0,
+        paths: new Map(),
+        statuses: new Map(),
+        sessions: this.createVisitors(),
+        firstSeen: at,
+        lastSeen: at,
+      };
+      this.groups.set(fingerprint, group);
+    }
+
+    group.count++;
+    if (error.path !== undefined) increment(group.paths, error.path);
+    if (error.status !== undefined) increment(group.statuses, error.status);
+    if (error.sessionId) group.sessions.add(error.sessionId);
+    if (at < group.firstSeen) group.firstSeen = at;
+    if (at > group.lastSeen) {
+      group.lastSeen = at;
+      if (error.message) group.message = error.message;
+    }
+    this.evict();
+    return group;
+  }
+
+  get size(): number {
+    return this.groups.size;
+  }
+
+  topErrors(limit = 10): TopError[] {
+    return Array.from(this.groups.values())
+      .sort((a, b) => b.count - a.count || b.lastSeen - a.lastSeen)
+      .slice(0, limit)
+      .map((group) => ({
+        fingerprint: group.fingerprint,
+        type: group.type,
+        ...(group.message !== undefined && { message: group.message }),
+        count: group.count,
+        affectedSessions: group.sessions.size,
+        paths: Array.from(group.paths.entries())
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 5)
+          .map(([path]) => path),
+        statuses: Array.from(group.statuses.keys()).sort((a, b) => a - b),
+        firstSeen: new Date(group.firstSeen).toISOString(),
+        lastSeen: new Date(group.lastSeen).toISOString(),
+      }));
+  }
+
+  byType(): ErrorTypeStats[] {
+    const types = new Map<string, number>();
+    let total = 0;
+    for (const group of this.groups.values()) {
+      increment(types, group.type, group.count);
+      total += group.count;
+    }
+    return Array.from(types.entries())
+      .map(([type, count]) => ({
+        type,
+        count,
+        percentage: total > 0 ? (count / total) * 100 : 0,
+      }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  byPath(): Map<string, number> {
+    const paths = new Map<string, number>();
+    for (const group of this.groups.values()) {
+      group.paths.forEach((count, path) => increment(paths, path, count));
+    }
+    return paths;
+  }
+
+  serialize(): SerializedErrorGroup[] {
+    return Array.from(this.groups.values()).map((group) => ({
+      fingerprint: group.fingerprint,
+      type: group.type,
+      ...(group.message !== undefined && { message: group.message }),
+      count: group.count,
+      paths: Array.from(group.paths, ([path, count]) => ({ path, count })),
+      statuses: Array.from(group.statuses, ([status, count]) => ({
+        status,
+        count,
+      })),
+      sessions: serializeVisitors(group.sessions),
+      firstSeen: new Date(group.firstSeen).toISOString(),
+      lastSeen: new Date(group.lastSeen).toISOString(),
+    }));
+  }
+
+  restore(data: SerializedErrorGroup[]): void {
+    for (const entry of data) {
+      const firstSeen = new Date(entry.firstSeen).getTime();
+      const lastSeen = new Date(entry.lastSeen).getTime();
+      const sessions = restoreVisitors(entry.sessions, this.createVisitors);
+      const live = this.groups.get(entry.fingerprint);
+      if (!live) {
+        this.groups.set(entry.fingerprint, {
+          fingerprint: entry.fingerprint,
+          type: entry.type,
+          message: entry.message,
+          count: entry.count,
+          paths: new Map(entry.paths.map(({ path, count }) => [path, count])),
+          statuses: new Map(
+            entry.statuses.map(({ status, count }) => [status, count]),
+          ),
+          sessions,
+          firstSeen,
+          lastSeen,
+        });
+        continue;
+      }
+      live.count += entry.count;
+      entry.paths.forEach(({ path, count }) =>
+        increment(live.paths, path, count),
+      );
+      entry.statuses.forEach(({ status, count }) =>
+        increment(live.statuses, status, count),
+      );
+      live.sessions = mergeVisitors(live.sessions, sessions);
+      if (firstSeen < live.firstSeen) live.firstSeen = firstSeen;
+      if (lastSeen > live.lastSeen) {
+        live.lastSeen = lastSeen;
+        live.message = entry.message ?? live.message;
+      }
+    }
+    this.evict();
+  }
+
+  private evict(): void {
+    if (this.groups.size <= this.maxGroups) return;
+    const stalest = Array.from(this.groups.values())
+      .sort((a, b) => a.lastSeen - b.lastSeen)
+      .slice(0, this.groups.size - this.maxGroups);
+    stalest.forEach((group) => this.groups.delete(group.fingerprint));
+  }
+}
@@ -0,0 +1,123 @@
+import { randomUUID } from 'crypto';
+import { getMetricsConfig } from './config.js';
+import { getEventStreamManager } from './event-stream.js';
+import type { AddClientOptions, EventStreamManager } from './event-stream.js';
+import type { RealtimeEvent } from './types.js';
+
+export interface EventStreamResponseOptions
+  extends Omit<AddClientOptions, 'lastEventId'> {
+  
+  manager?: EventStreamManager;
+  
+  clientId?: string;
+  
+  snapshot?: () => unknown;
+  
+  headers?: Record<string, string>;
+  
+  onClose?: (clientId: string) => void;
+}
+
+export const EVENT_STREAM_HEADERS: Readonly<Record<string, string>> = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'X-Accel-Buffering': 'no',
+};
+
+
+export function getLastEventId(request: Request): string | null {
+  const header = request.headers.get('last-event-id');
+  if (header !== null && header !== '') return header;
+  try {
+    return new URL(request.url).searchParams.get('lastEventId');
+  } catch {
+    return null;
+  }
+}
+
+
+export function createEventStreamResponse(
+  request: Request,
+  options: EventStreamResponseOptions = {},
+): Response {
+  const manager = options.manager ?? getEventStreamManager();
+  const clientId = options.clientId ?? randomUUID();
+  const signal = request.signal;
+  let controller: ReadableStreamDefaultController<string> | null = null;
+  let closed = false;
+
+  const close = (): void => {
+    if (closed) return;
+    closed = true;
+    signal.removeEventListener('abort', onAbort);
+    if (controller) manager.removeClient(clientId);
+    options.onClose?.(clientId);
+  };
+
+  const onAbort = (): void => {
+    close();
+    try {
+      controller?.close();
+    } catch (error) {
+      getMetricsConfig()
+        .getLogger()
+        .debug(`Stream for client ${clientId} was already closed`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+    }
+  };
+
+  const deliverSnapshot = async (snapshot: () => unknown): Promise<void> => {
+    try {
+      const data = await snapshot();
+      if (closed) return;
+      const event: RealtimeEvent = {
+        type: 'metrics',
+        timestamp: Date.now(),
+        data,
+      };
+      manager.sendToClient(clientId, event);
+    } catch (error) {
+      getMetricsConfig()
+        .getLogger()
+        .error(`Failed to deliver initial snapshot to client ${clientId}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+    }
+  };
+
+  const source = new ReadableStream<string>({
+    start(streamController) {
+      if (signal.aborted) {
+        closed = true;
+        streamController.close();
+        options.onClose?.(clientId);
+        return;
+      }
+      controller = streamController;
+      signal.addEventListener('abort', onAbort, { once: true });
+      manager.addClient(clientId, streamController, {
+        lastEventId: getLastEventId(request),
+        subscription: options.subscription,
+        slowClientPolicy: options.slowClientPolicy,
+      });
+      if (options.snapshot) void deliverSnapshot(options.snapshot);
+    },
+    pull() {
+      manager.flushClient(clientId);
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  const headers = new Headers(EVENT_STREAM_HEADERS);
+  for (const [key, value] of Object.entries(options.headers ?? {})) {
+    headers.set(key, value);
+  }
+
+  return new Response(source.pipeThrough(new TextEncoderStream()), {
+    status: 200,
+    headers,
+  });
+}
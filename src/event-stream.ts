@@ -7,12 +7,161 @@
 
 
 
+import { randomUUID } from 'crypto';
 import { getMetricsConfig } from './config.js';
+import type { ResolvedMetricsConfig } from './config.js';
+import type { EventTransport, TransportMessage } from './event-transport.js';
+import { encodeSseMessage } from './sse.js';
 import type { RealtimeEvent } from './types.js';
 
+export type RealtimeEventType = RealtimeEvent['type'];
+
+export const METRICS_DELTA = 'delta';
+
+export type SlowClientPolicy = ResolvedMetricsConfig['eventSlowClientPolicy'];
+
+export interface EventSubscription {
+  
+  types?: RealtimeEventType[];
+  
+  alertSeverities?: string[];
+  
+  logLevels?: string[];
+  
+  filter?: (event: RealtimeEvent) => boolean;
+}
+
+export interface AddClientOptions {
+  
+  lastEventId?: string | null;
+  
+  subscription?: EventSubscription;
+  
+  slowClientPolicy?: SlowClientPolicy;
+}
+
+export interface StreamClientStats {
+  clientId: string;
+  connectedAt: number;
+  lastWriteAt: number;
+  desiredSize: number | null;
+  queueDepth: number;
+  dropped: number;
+  coalesced: number;
+}
+
+export interface ClientChange {
+  clientId: string;
+  connected: boolean;
+  clientCount: number;
+}
+
+export type ClientChangeListener = (change: ClientChange) => void;
+
+export interface BackpressureStats {
+  queued: number;
+  dropped: number;
+  coalesced: number;
+  disconnected: number;
+}
+
+const CONTROL_EVENT_TYPES = new Set<RealtimeEventType>([
+  'connection',
+  'heartbeat',
+  'reset',
+]);
+
+function fieldOf(value: unknown, ...keys: string[]): string | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const record = value as Record<string, unknown>;
+  for (const key of keys) {
+    if (typeof record[key] === 'string') return record[key] as string;
+  }
+  return undefined;
+}
+
+
+function matchSubscription(
+  subscription: EventSubscription | undefined,
+  event: RealtimeEvent,
+): RealtimeEvent | null {
+  if (!subscription || CONTROL_EVENT_TYPES.has(event.type)) return event;
+  if (subscription.types && !subscription.types.includes(event.type)) {
+    return null;
+  }
+
+  let matched = event;
+  if (event.type === 'alerts' && subscription.alertSeverities) {
+    const severity = fieldOf(event.data, 'severity', 'level');
+    if (!severity || !subscription.alertSeverities.includes(severity)) {
+      return null;
+    }
+  }
+  if (event.type === 'logs' && subscription.logLevels) {
+    const entries = Array.isArray(event.data) ? event.data : [event.data];
+    const kept = entries.filter((entry) => {
+      const level = fieldOf(entry, 'level');
+      return level !== undefined && subscription.logLevels!.includes(level);
+    });
+    if (kept.length === 0) return null;
+    if (kept.length !== entries.length) {
+      matched = { ...event, data: kept };
+    }
+  }
+
+  if (subscription.filter && !subscription.filter(matched)) return null;
+  return matched;
+}
+
+function isBackpressured(controller: ReadableStreamDefaultController): boolean {
+  const desiredSize = controller.desiredSize;
+  return desiredSize !== null && desiredSize <= 0;
+}
+
+function isSaturated(controller: ReadableStreamDefaultController): boolean {
+  const desiredSize = controller.desiredSize;
+  const limit = Math.max(1, getMetricsConfig().eventClientQueueSize);
+  return desiredSize !== null && desiredSize < -limit;
+}
+
+function isFullMetrics(event: RealtimeEvent | undefined): boolean {
+  return event?.type === 'metrics' && event.message !== METRICS_DELTA;
+}
+
+interface QueuedFrame {
+  event?: RealtimeEvent;
+  frame: string;
+}
+
+interface StreamClient {
+  controller: ReadableStreamDefaultController;
+  subscription?: EventSubscription;
+  slowClientPolicy?: SlowClientPolicy;
+  connectedAt: number;
+  lastWriteAt: number;
+  backpressuredSince: number | null;
+  queue: QueuedFrame[];
+  dropped: number;
+  coalesced: number;
+}
+
 export class EventStreamManager {
-  private streams = new Map<string, ReadableStreamDefaultController>();
+  private streams = new Map<string, StreamClient>();
   private static instance: EventStreamManager;
+  readonly originId = randomUUID();
+  private transport: EventTransport | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private eventSeq = 0;
+  private replayBuffer: Array<{
+    id: number;
+    event: RealtimeEvent;
+    frame: string;
+  }> = [];
+  private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  private droppedFrames = 0;
+  private coalescedFrames = 0;
+  private slowDisconnects = 0;
+  private clientListeners = new Set<ClientChangeListener>();
 
   private constructor() {}
 
@@ -28,6 +177,7 @@ export class EventStreamManager {
 
 
   public static resetInstance(): void {
+    EventStreamManager.instance?.stopHeartbeat();
     EventStreamManager.instance = undefined as unknown as EventStreamManager;
   }
 
@@ -35,42 +185,418 @@ export class EventStreamManager {
   public addClient(
     clientId: string,
     controller: ReadableStreamDefaultController,
+    options: AddClientOptions = {},
   ): void {
-    this.streams.set(clientId, controller);
-    const logger = getMetricsConfig().getLogger();
-    logger.info(`Client ${clientId} connected to event stream`);
+    const { lastEventId, subscription, slowClientPolicy } = options;
+    const now = Date.now();
+    const client: StreamClient = {
+      controller,
+      subscription,
+      slowClientPolicy,
+      connectedAt: now,
+      lastWriteAt: now,
+      backpressuredSince: null,
+      queue: [],
+      dropped: 0,
+      coalesced: 0,
+    };
+    this.streams.set(clientId, client);
+    const cfg = getMetricsConfig();
+    cfg.getLogger().info(`Client ${clientId} connected to event stream`);
+    this.startHeartbeat();
+
+    const connection: RealtimeEvent = {
+      type: 'connection',
+      timestamp: now,
+      clientId,
+      message: 'Connected to event stream',
+    };
+    const frame = encodeSseMessage({
+      event: connection.type,
+      retry: cfg.eventRetryMs ?? undefined,
+      data: JSON.stringify(connection),
+    });
+    if (!this.send(clientId, client, frame)) return;
+    if (lastEventId !== undefined && lastEventId !== null && lastEventId !== '') {
+      if (!this.replay(clientId, client, lastEventId)) return;
+    }
+    this.notifyClientChange(clientId, true);
   }
 
   
   public removeClient(clientId: string): void {
-    this.streams.delete(clientId);
+    const removed = this.streams.delete(clientId);
     const logger = getMetricsConfig().getLogger();
     logger.info(`Client ${clientId} disconnected from event stream`);
+    if (this.streams.size === 0) {
+      this.stopHeartbeat();
+    }
+    if (removed) this.notifyClientChange(clientId, false);
   }
 
   
-  public broadcast(event: RealtimeEvent): void {
-    const eventData = `data: ${JSON.stringify(event)}\n\n`;
-    const logger = getMetricsConfig().getLogger();
+  public onClientChange(listener: ClientChangeListener): () => void {
+    this.clientListeners.add(listener);
+    return () => {
+      this.clientListeners.delete(listener);
+    };
+  }
 
-    this.streams.forEach((controller, clientId) => {
+  private notifyClientChange(clientId: string, connected: boolean): void {
+    const change: ClientChange = {
+      clientId,
+      connected,
+      clientCount: this.streams.size,
+    };
+    this.clientListeners.forEach((listener) => {
       try {
-        controller.enqueue(eventData);
+        listener(change);
       } catch (error) {
-        logger.error(`Failed to send event to client ${clientId}`, {
+        getMetricsConfig()
+          .getLogger()
+          .error('Client change listener failed', {
+            clientId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+      }
+    });
+  }
+
+  
+  public setSubscription(
+    clientId: string,
+    subscription: EventSubscription | undefined,
+  ): boolean {
+    const client = this.streams.get(clientId);
+    if (!client) return false;
+    client.subscription = subscription;
+    return true;
+  }
+
+  
+  public sendToClient(clientId: string, event: RealtimeEvent): boolean {
+    const client = this.streams.get(clientId);
+    if (!client) return false;
+    return this.send(
+      clientId,
+      client,
+      encodeSseMessage({ event: event.type, data: JSON.stringify(event) }),
+      event,
+    );
+  }
+
+  
+  public stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+  }
+
+  
+  public checkClients(now: number = Date.now()): void {
+    const cfg = getMetricsConfig();
+    const timeout = cfg.eventClientTimeoutMs;
+
+    for (const [clientId, client] of this.streams) {
+      if (isBackpressured(client.controller)) {
+        client.backpressuredSince ??= now;
+        if (now - client.backpressuredSince >= timeout) {
+          this.evict(clientId, client, 'backpressure');
+        } else {
+          this.drain(clientId, client);
+        }
+        continue;
+      }
+      client.backpressuredSince = null;
+      const queued = client.queue.length;
+      if (!this.drain(clientId, client)) continue;
+      if (client.queue.length < queued) client.lastWriteAt = now;
+
+      if (now - client.lastWriteAt >= timeout) {
+        this.evict(clientId, client, 'idle');
+      } else if (now - client.lastWriteAt >= cfg.eventHeartbeatIntervalMs) {
+        this.send(clientId, client, this.heartbeatFrame(now));
+      }
+    }
+  }
+
+  private startHeartbeat(): void {
+    const intervalMs = getMetricsConfig().eventHeartbeatIntervalMs;
+    if (this.heartbeatInterval || intervalMs <= 0) return;
+    this.heartbeatInterval = setInterval(() => {
+      this.checkClients();
+    }, intervalMs);
+    this.heartbeatInterval.unref();
+  }
+
+  private heartbeatFrame(now: number): string {
+    if (getMetricsConfig().eventHeartbeatMode === 'comment') {
+      return encodeSseMessage({ comment: 'heartbeat' });
+    }
+    const heartbeat: RealtimeEvent = { type: 'heartbeat', timestamp: now };
+    return encodeSseMessage({
+      event: heartbeat.type,
+      data: JSON.stringify(heartbeat),
+    });
+  }
+
+  private evict(
+    clientId: string,
+    client: StreamClient,
+    reason: 'idle' | 'backpressure' | 'overflow',
+  ): void {
+    const logger = getMetricsConfig().getLogger();
+    logger.warn(`Evicting ${reason} client ${clientId} from event stream`, {
+      connectedAt: client.connectedAt,
+      lastWriteAt: client.lastWriteAt,
+      queueDepth: client.queue.length,
+      dropped: client.dropped,
+    });
+    this.removeClient(clientId);
+    try {
+      client.controller.close();
+    } catch (error) {
+      logger.debug(`Stream for client ${clientId} was already closed`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  
+  public setTransport(transport: EventTransport | null): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.transport = transport;
+    if (transport) {
+      this.unsubscribe = transport.subscribe((message) =>
+        this.receive(message),
+      );
+    }
+  }
+
+  
+  public broadcast(event: RealtimeEvent): void {
+    this.deliver(event);
+    if (!this.transport) return;
+    try {
+      this.transport.publish({ origin: this.originId, event });
+    } catch (error) {
+      getMetricsConfig()
+        .getLogger()
+        .error('Failed to publish event to transport', {
           error: error instanceof Error ? error.message : String(error),
         });
-        this.removeClient(clientId);
+    }
+  }
+
+  
+  public broadcastLocal(event: RealtimeEvent): void {
+    this.deliver(event);
+  }
+
+  private receive(message: TransportMessage): void {
+    if (message.origin === this.originId) return;
+    this.deliver(message.event);
+  }
+
+  private deliver(event: RealtimeEvent): void {
+    const id = ++this.eventSeq;
+    const eventData = this.encode(event, id);
+
+    const bufferSize = getMetricsConfig().eventReplayBufferSize;
+    if (bufferSize > 0) {
+      this.replayBuffer.push({ id, event, frame: eventData });
+      if (this.replayBuffer.length > bufferSize) {
+        this.replayBuffer.splice(0, this.replayBuffer.length - bufferSize);
       }
+    }
+
+    this.streams.forEach((client, clientId) => {
+      this.sendMatching(clientId, client, id, event, eventData);
     });
   }
 
+  private parseEventId(id: string): number | null {
+    const separator = id.lastIndexOf('-');
+    if (separator < 0 || id.slice(0, separator) !== this.originId) return null;
+    const seq = Number(id.slice(separator + 1));
+    return Number.isInteger(seq) ? seq : null;
+  }
+
+  private replay(
+    clientId: string,
+    client: StreamClient,
+    lastEventId: string,
+  ): boolean {
+    const seq = this.parseEventId(lastEventId);
+    if (seq === this.eventSeq) return true;
+
+    const oldest = this.replayBuffer[0]?.id ?? this.eventSeq + 1;
+    if (seq === null || seq > this.eventSeq || seq < oldest - 1) {
+      const reset: RealtimeEvent = {
+        type: 'reset',
+        timestamp: Date.now(),
+        clientId,
+        message: 'Missed events are no longer available; refetch current state',
+      };
+      return this.send(clientId, client, this.encode(reset, this.eventSeq));
+    }
+
+    for (const { id, event, frame } of this.replayBuffer) {
+      if (id <= seq) continue;
+      if (!this.sendMatching(clientId, client, id, event, frame)) return false;
+    }
+    return true;
+  }
+
+  private sendMatching(
+    clientId: string,
+    client: StreamClient,
+    id: number,
+    event: RealtimeEvent,
+    frame: string,
+  ): boolean {
+    const matched = matchSubscription(client.subscription, event);
+    if (!matched) return true;
+    return this.send(
+      clientId,
+      client,
+      matched === event ? frame : this.encode(matched, id),
+      matched,
+    );
+  }
+
+  private encode(event: RealtimeEvent, id: number): string {
+    return encodeSseMessage({
+      id: `${this.originId}-${id}`,
+      event: event.type,
+      data: JSON.stringify(event),
+    });
+  }
+
+  private send(
+    clientId: string,
+    client: StreamClient,
+    frame: string,
+    event?: RealtimeEvent,
+  ): boolean {
+    if (!this.drain(clientId, client)) return false;
+    if (client.queue.length === 0 && !isSaturated(client.controller)) {
+      return this.write(clientId, client, frame);
+    }
+    return this.hold(clientId, client, { event, frame });
+  }
+
+  private hold(
+    clientId: string,
+    client: StreamClient,
+    queued: QueuedFrame,
+  ): boolean {
+    const cfg = getMetricsConfig();
+    const policy = client.slowClientPolicy ?? cfg.eventSlowClientPolicy;
+    if (policy === 'coalesce' && isFullMetrics(queued.event)) {
+      const kept = client.queue.filter(
+        (entry) => entry.event?.type !== 'metrics',
+      );
+      const coalesced = client.queue.length - kept.length;
+      client.queue = kept;
+      client.coalesced += coalesced;
+      this.coalescedFrames += coalesced;
+    }
+
+    client.queue.push(queued);
+    const overflow = client.queue.length - Math.max(1, cfg.eventClientQueueSize);
+    if (overflow <= 0) return true;
+    if (policy === 'disconnect') {
+      this.slowDisconnects++;
+      this.evict(clientId, client, 'overflow');
+      return false;
+    }
+    client.queue.splice(0, overflow);
+    client.dropped += overflow;
+    this.droppedFrames += overflow;
+    return true;
+  }
+
+  private drain(clientId: string, client: StreamClient): boolean {
+    while (client.queue.length > 0 && !isSaturated(client.controller)) {
+      const { frame } = client.queue.shift()!;
+      if (!this.write(clientId, client, frame)) return false;
+    }
+    return true;
+  }
+
+  private write(clientId: string, client: StreamClient, frame: string): boolean {
+    try {
+      client.controller.enqueue(frame);
+      client.lastWriteAt = Date.now();
+      return true;
+    } catch (error) {
+      getMetricsConfig()
+        .getLogger()
+        .error(`Failed to send event to client ${clientId}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      this.removeClient(clientId);
+      return false;
+    }
+  }
+
   
   public getClientCount(): number {
     return this.streams.size;
   }
 
   
+  public flushClient(clientId: string): boolean {
+    const client = this.streams.get(clientId);
+    if (!client) return false;
+    return this.drain(clientId, client);
+  }
+
+  
+  public getClientStats(): StreamClientStats[];
+  public getClientStats(clientId: string): StreamClientStats | undefined;
+  public getClientStats(
+    clientId?: string,
+  ): StreamClientStats[] | StreamClientStats | undefined {
+    const describe = (id: string, client: StreamClient): StreamClientStats => ({
+      clientId: id,
+      connectedAt: client.connectedAt,
+      lastWriteAt: client.lastWriteAt,
+      desiredSize: client.controller.desiredSize,
+      queueDepth: client.queue.length,
+      dropped: client.dropped,
+      coalesced: client.coalesced,
+    });
+    if (clientId !== undefined) {
+      const client = this.streams.get(clientId);
+      return client ? describe(clientId, client) : undefined;
+    }
+    return Array.from(this.streams, ([id, client]) => describe(id, client));
+  }
+
+  
+  public getBackpressureStats(): BackpressureStats {
+    let queued = 0;
+    this.streams.forEach((client) => {
+      queued += client.queue.length;
+    });
+    return {
+      queued,
+      dropped: this.droppedFrames,
+      coalesced: this.coalescedFrames,
+      disconnected: this.slowDisconnects,
+    };
+  }
+
+  
+  public getLastEventId(): string {
+    return `${this.originId}-${this.eventSeq}`;
+  }
+
+  
   public broadcastMetrics(metrics: unknown): void {
     this.broadcast({
       type: 'metrics',
@@ -0,0 +1,293 @@
+import { EventEmitter } from 'events';
+import { open, stat, unlink } from 'fs/promises';
+import { createConnection, createServer } from 'net';
+import type { Server, Socket } from 'net';
+import { getMetricsConfig } from './config.js';
+import type { RealtimeEvent } from './types.js';
+
+export interface TransportMessage {
+  origin: string;
+  event: RealtimeEvent;
+}
+
+export type TransportHandler = (message: TransportMessage) => void;
+
+export interface EventTransport {
+  publish(message: TransportMessage): void;
+  subscribe(handler: TransportHandler): () => void;
+  close?(): Promise<void>;
+}
+
+function parseMessage(line: string): TransportMessage | undefined {
+  try {
+    const parsed: unknown = JSON.parse(line);
+    if (!parsed || typeof parsed !== 'object') return undefined;
+    const message = parsed as Record<string, unknown>;
+    return typeof message.origin === 'string' &&
+      !!message.event &&
+      typeof message.event === 'object'
+      ? (message as unknown as TransportMessage)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const channels = new Map<string, EventEmitter>();
+
+const TAKEOVER_RETRY_MS = 25;
+const STALE_LOCK_MS = 5000;
+
+function errorCode(error: unknown): string | undefined {
+  return (error as NodeJS.ErrnoException).code;
+}
+
+export class InProcessTransport implements EventTransport {
+  private readonly emitter: EventEmitter;
+  private readonly handlers = new Set<TransportHandler>();
+
+  constructor(channel = 'default') {
+    let emitter = channels.get(channel);
+    if (!emitter) {
+      emitter = new EventEmitter();
+      emitter.setMaxListeners(0);
+      channels.set(channel, emitter);
+    }
+    this.emitter = emitter;
+  }
+
+  publish(message: TransportMessage): void {
+    this.emitter.emit('message', structuredClone(message));
+  }
+
+  subscribe(handler: TransportHandler): () => void {
+    this.emitter.on('message', handler);
+    this.handlers.add(handler);
+    return () => {
+      this.emitter.off('message', handler);
+      this.handlers.delete(handler);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.handlers.forEach((handler) => this.emitter.off('message', handler));
+    this.handlers.clear();
+  }
+}
+
+export interface UnixSocketTransportOptions {
+  
+  reconnectDelayMs?: number;
+}
+
+
+export class UnixSocketTransport implements EventTransport {
+  private readonly handlers = new Set<TransportHandler>();
+  private server: Server | null = null;
+  private readonly peers = new Set<Socket>();
+  private hub: Socket | null = null;
+  private starting: Promise<void> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(
+    private readonly socketPath: string,
+    private readonly options: UnixSocketTransportOptions = {},
+  ) {}
+
+  get role(): 'hub' | 'peer' | 'disconnected' {
+    if (this.server) return 'hub';
+    return this.hub ? 'peer' : 'disconnected';
+  }
+
+
+  start(): Promise<void> {
+    if (!this.starting) {
+      this.starting = this.listen().finally(() => {
+        this.starting = null;
+      });
+    }
+    return this.starting;
+  }
+
+  publish(message: TransportMessage): void {
+    const line = JSON.stringify(message) + '\n';
+    if (this.server) {
+      this.peers.forEach((peer) => peer.write(line));
+    } else if (this.hub) {
+      this.hub.write(line);
+    }
+  }
+
+  subscribe(handler: TransportHandler): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.handlers.clear();
+    this.hub?.destroy();
+    this.hub = null;
+    this.peers.forEach((peer) => peer.destroy());
+    this.peers.clear();
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private async listen(): Promise<void> {
+    try {
+      this.server = await this.createHub();
+      return;
+    } catch (error) {
+      if (errorCode(error) !== 'EADDRINUSE') throw error;
+    }
+
+    try {
+      this.hub = await this.connect();
+    } catch (error) {
+      const code = errorCode(error);
+      if (code !== 'ECONNREFUSED' && code !== 'ENOENT') throw error;
+      await this.takeOver();
+    }
+  }
+
+  private async takeOver(): Promise<void> {
+    const lockPath = `${this.socketPath}.lock`;
+    const lock = await open(lockPath, 'wx').catch(async (error: unknown) => {
+      if (errorCode(error) !== 'EEXIST') throw error;
+      await this.releaseStaleLock(lockPath);
+      return null;
+    });
+    if (!lock) {
+      await new Promise<void>((resolve) => setTimeout(resolve, TAKEOVER_RETRY_MS));
+      if (this.closed) return;
+      return this.listen();
+    }
+
+    try {
+      try {
+        this.hub = await this.connect();
+        return;
+      } catch (error) {
+        const code = errorCode(error);
+        if (code !== 'ECONNREFUSED' && code !== 'ENOENT') throw error;
+      }
+      await unlink(this.socketPath).catch(() => {});
+      try {
+        this.server = await this.createHub();
+      } catch (error) {
+        if (errorCode(error) !== 'EADDRINUSE') throw error;
+        this.hub = await this.connect();
+      }
+    } finally {
+      await lock.close();
+      await unlink(lockPath).catch(() => {});
+    }
+  }
+
+  private async releaseStaleLock(lockPath: string): Promise<void> {
+    const stats = await stat(lockPath).catch(() => null);
+    if (stats && Date.now() - stats.mtimeMs > STALE_LOCK_MS) {
+      await unlink(lockPath).catch(() => {});
+    }
+  }
+
+  private createHub(): Promise<Server> {
+    return new Promise((resolve, reject) => {
+      const server = createServer((peer) => {
+        peer.unref();
+        this.peers.add(peer);
+        this.readLines(peer, (message, line) => {
+          this.peers.forEach((other) => {
+            if (other !== peer) other.write(line);
+          });
+          this.deliver(message);
+        });
+        peer.on('close', () => this.peers.delete(peer));
+        peer.on('error', () => peer.destroy());
+      });
+      server.once('error', reject);
+      server.listen(this.socketPath, () => {
+        server.off('error', reject);
+        server.unref();
+        resolve(server);
+      });
+    });
+  }
+
+  private connect(): Promise<Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = createConnection(this.socketPath);
+      socket.once('error', reject);
+      socket.once('connect', () => {
+        socket.off('error', reject);
+        socket.unref();
+        this.readLines(socket, (message) => this.deliver(message));
+        socket.on('error', () => socket.destroy());
+        socket.on('close', () => {
+          if (this.hub !== socket) return;
+          this.hub = null;
+          this.scheduleReconnect();
+        });
+        resolve(socket);
+      });
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) return;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.start().catch((error) => {
+        getMetricsConfig()
+          .getLogger()
+          .warn('[UnixSocketTransport] Reconnect failed', {
+            socketPath: this.socketPath,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        this.scheduleReconnect();
+      });
+    }, this.options.reconnectDelayMs ?? 1000);
+    this.reconnectTimer.unref();
+  }
+
+  private readLines(
+    socket: Socket,
+    onMessage: (message: TransportMessage, line: string) => void,
+  ): void {
+    let buffered = '';
+    socket.setEncoding('utf-8');
+    socket.on('data', (chunk: string) => {
+      buffered += chunk;
+      let newline: number;
+      while ((newline = buffered.indexOf('\n')) !== -1) {
+        const line = buffered.slice(0, newline + 1);
+        buffered = buffered.slice(newline + 1);
+        const message = parseMessage(line);
+        if (message) {
+          onMessage(message, line);
+        } else {
+          getMetricsConfig()
+            .getLogger()
+            .warn('[UnixSocketTransport] Dropped malformed message', {
+              socketPath: this.socketPath,
+            });
+        }
+      }
+    });
+  }
+
+  private deliver(message: TransportMessage): void {
+    this.handlers.forEach((handler) => handler(message));
+  }
+}
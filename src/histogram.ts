@@ -0,0 +1,102 @@
+import type {
+  HistogramBucket,
+  HistogramSnapshot,
+  SerializedHistogram,
+} from './types.js';
+
+export const DEFAULT_DURATION_BUCKETS_MS = [
+  5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+
+export class DurationHistogram {
+  private readonly bounds: number[];
+  private readonly counts: number[];
+  private count = 0;
+  private sum = 0;
+
+  constructor(bounds: number[] = DEFAULT_DURATION_BUCKETS_MS) {
+    this.bounds = Array.from(new Set(bounds))
+      .filter((b) => Number.isFinite(b))
+      .sort((a, b) => a - b);
+    this.counts = new Array<number>(this.bounds.length).fill(0);
+  }
+
+  observe(value: number): void {
+    if (!Number.isFinite(value) || value < 0) return;
+    for (let i = 0; i < this.bounds.length; i++) {
+      if (value <= this.bounds[i]) {
+        this.counts[i]++;
+        break;
+      }
+    }
+    this.count++;
+    this.sum += value;
+  }
+
+
+  quantile(q: number): number {
+    if (this.count === 0) return 0;
+    const rank = Math.min(Math.max(q, 0), 1) * this.count;
+    let cumulative = 0;
+    for (let i = 0; i < this.bounds.length; i++) {
+      const prev = cumulative;
+      cumulative += this.counts[i];
+      if (cumulative >= rank && this.counts[i] > 0) {
+        const lower = i === 0 ? 0 : this.bounds[i - 1];
+        const upper = this.bounds[i];
+        return lower + (upper - lower) * ((rank - prev) / this.counts[i]);
+      }
+    }
+
+    return this.bounds.length > 0 ? this.bounds[this.bounds.length - 1] : 0;
+  }
+
+  merge(other: DurationHistogram): void {
+    const sameBounds =
+      other.bounds.length === this.bounds.length &&
+      other.bounds.every((b, i) => b === this.bounds[i]);
+    if (!sameBounds) {
+      throw new Error('[DurationHistogram] Cannot merge histograms with different buckets');
+    }
+    other.counts.forEach((c, i) => {
+      this.counts[i] += c;
+    });
+    this.count += other.count;
+    this.sum += other.sum;
+  }
+
+  toJSON(): SerializedHistogram {
+    return {
+      bounds: [...this.bounds],
+      counts: [...this.counts],
+      count: this.count,
+      sum: this.sum,
+    };
+  }
+
+  static fromJSON(data: SerializedHistogram): DurationHistogram {
+    const histogram = new DurationHistogram(data.bounds);
+    data.counts.forEach((c, i) => {
+      if (i < histogram.counts.length) histogram.counts[i] = c;
+    });
+    histogram.count = data.count;
+    histogram.sum = data.sum;
+    return histogram;
+  }
+
+  snapshot(): HistogramSnapshot {
+    let cumulative = 0;
+    const buckets: HistogramBucket[] = this.bounds.map((le, i) => {
+      cumulative += this.counts[i];
+      return { le, count: cumulative };
+    });
+    return {
+      buckets,
+      count: this.count,
+      sum: this.sum,
+      p50: this.quantile(0.5),
+      p90: this.quantile(0.9),
+      p99: this.quantile(0.99),
+    };
+  }
+}
@@ -0,0 +1,229 @@
+import { createHash } from 'crypto';
+import type {
+  SerializedHyperLogLog,
+  SerializedVisitors,
+  VisitorSet,
+} from './types.js';
+
+export const DEFAULT_HLL_PRECISION = 14;
+
+const MIN_PRECISION = 4;
+const MAX_PRECISION = 16;
+
+function alpha(m: number): number {
+  switch (m) {
+    case 16:
+      return 0.673;
+    case 32:
+      return 0.697;
+    case 64:
+      return 0.709;
+    default:
+      return 0.7213 / (1 + 1.079 / m);
+  }
+}
+
+export class HyperLogLog {
+  readonly precision: number;
+  private readonly m: number;
+  private sparse: Map<number, number> | null = new Map();
+  private registers: Uint8Array | null = null;
+
+  constructor(precision: number = DEFAULT_HLL_PRECISION) {
+    if (
+      !Number.isInteger(precision) ||
+      precision < MIN_PRECISION ||
+      precision > MAX_PRECISION
+    ) {
+      throw new Error(
+        `[HyperLogLog] Precision must be an integer between ${MIN_PRECISION} and ${MAX_PRECISION}`,
+      );
+    }
+    this.precision = precision;
+    this.m = 1 << precision;
+  }
+
+
+  add(value: string): this {
+    const digest = createHash('sha1').update(value).digest();
+    const high = digest.readUInt32BE(0);
+    const low = digest.readUInt32BE(4);
+    const index = high >>> (32 - this.precision);
+    const rest = (high << this.precision) >>> 0;
+    const rank =
+      rest !== 0
+        ? Math.clz32(rest) + 1
+        : 32 - this.precision + Math.clz32(low) + 1;
+    this.setRegister(index, rank);
+    return this;
+  }
+
+
+  get size(): number {
+    let sum = 0;
+    let zeros = 0;
+    for (const rank of this.sparse?.values() ?? this.registers!) {
+      sum += 2 ** -rank;
+      if (rank === 0) zeros++;
+    }
+    if (this.sparse) {
+      zeros = this.m - this.sparse.size;
+      sum += zeros;
+    }
+    const estimate = (alpha(this.m) * this.m * this.m) / sum;
+    if (estimate <= 2.5 * this.m && zeros > 0) {
+      return Math.round(this.m * Math.log(this.m / zeros));
+    }
+    return Math.round(estimate);
+  }
+
+
+  merge(other: HyperLogLog): this {
+    if (other.precision !== this.precision) {
+      throw new Error(
+        `[HyperLogLog] Cannot merge sketches with precision ${this.precision} and ${other.precision}`,
+      );
+    }
+    if (other.sparse) {
+      for (const [index, rank] of other.sparse) {
+        this.setRegister(index, rank);
+      }
+    } else {
+      other.registers!.forEach((rank, index) => {
+        if (rank > 0) this.setRegister(index, rank);
+      });
+    }
+    return this;
+  }
+
+  clone(): HyperLogLog {
+    return new HyperLogLog(this.precision).merge(this);
+  }
+
+
+  fold(precision: number): HyperLogLog {
+    if (precision > this.precision) {
+      throw new Error(
+        `[HyperLogLog] Cannot fold a sketch with precision ${this.precision} up to ${precision}`,
+      );
+    }
+    const sketch = new HyperLogLog(precision);
+    const shift = this.precision - precision;
+    const foldRegister = (rank: number, index: number): void => {
+      if (rank === 0) return;
+      const low = index & ((1 << shift) - 1);
+      sketch.setRegister(
+        index >>> shift,
+        low !== 0 ? shift - (31 - Math.clz32(low)) : rank + shift,
+      );
+    };
+    if (this.sparse) {
+      this.sparse.forEach(foldRegister);
+    } else {
+      this.registers!.forEach(foldRegister);
+    }
+    return sketch;
+  }
+
+  toJSON(): SerializedHyperLogLog {
+    if (this.sparse) {
+      return {
+        precision: this.precision,
+        sparse: Array.from(this.sparse.entries())
+          .sort(([a], [b]) => a - b)
+          .map(([index, rank]) => index * 64 + rank),
+      };
+    }
+    return {
+      precision: this.precision,
+      registers: Buffer.from(this.registers!).toString('base64'),
+    };
+  }
+
+  static fromJSON(data: SerializedHyperLogLog): HyperLogLog {
+    const sketch = new HyperLogLog(data.precision);
+    if (data.registers !== undefined) {
+      const registers = Buffer.from(data.registers, 'base64');
+      if (registers.length !== sketch.m) {
+        throw new Error('[HyperLogLog] Register count does not match precision');
+      }
+      registers.forEach((rank, index) => {
+        if (rank > 0) sketch.setRegister(index, rank);
+      });
+    }
+    for (const entry of data.sparse ?? []) {
+      sketch.setRegister(Math.floor(entry / 64), entry % 64);
+    }
+    return sketch;
+  }
+
+  private setRegister(index: number, rank: number): void {
+    if (this.sparse) {
+      if (rank <= (this.sparse.get(index) ?? 0)) return;
+      this.sparse.set(index, rank);
+      if (this.sparse.size > this.m / 64) {
+        this.registers = this.dense();
+        this.sparse = null;
+      }
+      return;
+    }
+    if (rank > this.registers![index]) {
+      this.registers![index] = rank;
+    }
+  }
+
+  private dense(): Uint8Array {
+    if (this.registers) return this.registers;
+    const registers = new Uint8Array(this.m);
+    for (const [index, rank] of this.sparse!) {
+      registers[index] = rank;
+    }
+    return registers;
+  }
+}
+
+
+export function mergeVisitors(target: VisitorSet, source: VisitorSet): VisitorSet {
+  if (target instanceof HyperLogLog) {
+    if (source instanceof HyperLogLog) {
+      if (source.precision > target.precision) {
+        return target.merge(source.fold(target.precision));
+      }
+      if (source.precision < target.precision) {
+        return target.fold(source.precision).merge(source);
+      }
+      return target.merge(source);
+    }
+    source.forEach((visitor) => target.add(visitor));
+    return target;
+  }
+  if (source instanceof HyperLogLog) {
+    const sketch = source.clone();
+    target.forEach((visitor) => sketch.add(visitor));
+    return sketch;
+  }
+  source.forEach((visitor) => target.add(visitor));
+  return target;
+}
+
+
+export function serializeVisitors(visitors: VisitorSet): SerializedVisitors {
+  return visitors instanceof HyperLogLog ? visitors.toJSON() : Array.from(visitors);
+}
+
+
+export function restoreVisitors(
+  data: SerializedVisitors,
+  create: () => VisitorSet,
+): VisitorSet {
+  const visitors = create();
+  if (!Array.isArray(data)) {
+    const sketch = HyperLogLog.fromJSON(data);
+    return visitors instanceof HyperLogLog &&
+      sketch.precision > visitors.precision
+      ? sketch.fold(visitors.precision)
+      : sketch;
+  }
+  data.forEach((visitor) => visitors.add(visitor));
+  return visitors;
+}
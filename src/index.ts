@@ -14,31 +14,258 @@ export {
 export type {
   MetricsConfig,
   MetricsLogger,
+  OtlpExporterConfig,
   ResolvedMetricsConfig,
+  RollupRetentionConfig,
 } from './config.js';
 
 
 export type {
+  ClientBatch,
+  ClientEvent,
+  CollectorSnapshot,
+  ErrorTypeStats,
+  HistogramBucket,
+  HistogramSnapshot,
+  JournalEvent,
+  JournalEventInput,
+  MetricLabels,
+  MetricSeriesSnapshot,
+  MetricSnapshot,
+  MetricType,
   MetricsData,
+  MetricsQuery,
+  MetricsWindow,
   PageMetrics,
+  PageStats,
+  PageVitals,
+  PersistedMetrics,
   RealtimeEvent,
-  RequestDurationBuckets,
+  RollupResolution,
+  RouteErrorStats,
+  RouteRequestDuration,
+  SerializedErrorGroup,
+  SerializedHistogram,
+  SerializedHyperLogLog,
+  SerializedMetric,
   SerializedPageMetrics,
+  SerializedRollupBucket,
+  SerializedRollups,
+  SerializedSessionMetrics,
+  SerializedSummary,
+  SerializedVisitors,
   SessionMetrics,
+  SummarySnapshot,
+  TimeSeriesMetric,
+  TimeSeriesPoint,
+  TimeSeriesQuery,
+  TopError,
   TopPage,
+  TrackErrorInput,
+  TrackRequestInput,
   TrafficSource,
+  VisitorSet,
+  VitalsReport,
+  WebVitalName,
+  WebVitalRating,
+  WebVitalSample,
+  WebVitalSummary,
+  WindowedMetricsData,
 } from './types.js';
 
 
 export {
+  DEFAULT_DURATION_BUCKETS_MS,
+  DurationHistogram,
+} from './histogram.js';
+
+
+export {
+  ErrorTracker,
+  UNKNOWN_ERROR_TYPE,
+  fingerprintError,
+  normalizeErrorMessage,
+} from './error-tracker.js';
+export type { ErrorGroup } from './error-tracker.js';
+
+
+export {
+  DEFAULT_HLL_PRECISION,
+  HyperLogLog,
+  mergeVisitors,
+  restoreVisitors,
+  serializeVisitors,
+} from './hyperloglog.js';
+
+
+export {
+  PROMETHEUS_CONTENT_TYPE,
+  createPrometheusHandler,
+  escapeLabelValue,
+  formatPrometheus,
+} from './prometheus.js';
+export type {
+  PrometheusMetricFamily,
+  PrometheusMetricType,
+  PrometheusOptions,
+  PrometheusSample,
+} from './prometheus.js';
+
+
+export { OtlpExporter, buildOtlpPayload } from './otlp-exporter.js';
+export type {
+  OtlpExportMetricsServiceRequest,
+  OtlpHistogramDataPoint,
+  OtlpKeyValue,
+  OtlpMetric,
+  OtlpMetricsSource,
+  OtlpNumberDataPoint,
+  OtlpSummaryDataPoint,
+} from './otlp-exporter.js';
+
+
+export {
+  Counter,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+  Summary,
+  mergeSerializedMetrics,
+} from './registry.js';
+export type {
+  AnyMetric,
+  HistogramOptions,
+  MetricOptions,
+  SummaryOptions,
+} from './registry.js';
+
+
+export {
+  METRICS_WINDOW_MS,
+  ROLLUP_RESOLUTION_MS,
+  RollupStore,
+} from './rollups.js';
+
+
+export {
+  JsonFileStore,
+  METRICS_SCHEMA_VERSION,
+  MemoryStore,
+  createMetricsStore,
+  migrateEnvelope,
+  writeFileAtomic,
+} from './store.js';
+export type {
+  MetricsStore,
+  MetricsStoreKind,
+  PersistedMetricsEnvelope,
+} from './store.js';
+export { SqliteStore } from './sqlite-store.js';
+
+
+export { EventJournal } from './journal.js';
+
+
+export {
+  COLLECTOR_SNAPSHOT_VERSION,
   MetricsCollector,
   createMetricsCollector,
   getMetricsCollector,
   resetMetricsCollectorSingleton,
 } from './metrics-collector.js';
+export type { MetricsCollectorOptions } from './metrics-collector.js';
+
+
+export { FleetAggregator, aggregateSnapshots } from './aggregator.js';
+export type { FleetAggregatorOptions } from './aggregator.js';
 
 
 export {
   EventStreamManager,
+  METRICS_DELTA,
   getEventStreamManager,
 } from './event-stream.js';
+export type {
+  AddClientOptions,
+  BackpressureStats,
+  ClientChange,
+  ClientChangeListener,
+  EventSubscription,
+  RealtimeEventType,
+  SlowClientPolicy,
+  StreamClientStats,
+} from './event-stream.js';
+export {
+  AlertEngine,
+  resolveAlertMetric,
+  validateAlertRule,
+} from './alerts.js';
+export type {
+  AbsenceAlertRule,
+  Alert,
+  AlertComparison,
+  AlertEngineOptions,
+  AlertMetricSelector,
+  AlertRule,
+  AlertSeverity,
+  AlertState,
+  RateOfChangeAlertRule,
+  ThresholdAlertRule,
+} from './alerts.js';
+export {
+  AnomalyDetector,
+  baselineSamples,
+  describeAnomaly,
+  isAnomalous,
+  scoreAnomaly,
+  validateAnomalyRule,
+} from './anomaly.js';
+export type {
+  AnomalyAlert,
+  AnomalyBaseline,
+  AnomalyDetectorOptions,
+  AnomalyDirection,
+  AnomalyRule,
+  AnomalyScore,
+  AnomalyScoring,
+} from './anomaly.js';
+export { MetricsBroadcaster, diffMetrics } from './metrics-broadcaster.js';
+export type { MetricsBroadcasterOptions } from './metrics-broadcaster.js';
+export {
+  EVENT_STREAM_HEADERS,
+  createEventStreamResponse,
+  getLastEventId,
+} from './event-stream-response.js';
+export type { EventStreamResponseOptions } from './event-stream-response.js';
+export {
+  VitalsAggregator,
+  WEB_VITAL_NAMES,
+  WEB_VITAL_THRESHOLDS,
+  createVitalsHandler,
+  normalizeVitalPath,
+  parseVitalsPayload,
+  rateWebVital,
+} from './vitals.js';
+export type {
+  ParsedVitals,
+  VitalsAggregatorOptions,
+  VitalsHandlerOptions,
+} from './vitals.js';
+export { createCollectHandler, parseClientBatch } from './collect.js';
+export type {
+  CollectHandlerOptions,
+  CollectTarget,
+  ParsedClientBatch,
+} from './collect.js';
+export { SseParser, encodeSseMessage, parseSse } from './sse.js';
+export type { SseMessage } from './sse.js';
+export {
+  InProcessTransport,
+  UnixSocketTransport,
+} from './event-transport.js';
+export type {
+  EventTransport,
+  TransportHandler,
+  TransportMessage,
+  UnixSocketTransportOptions,
+} from './event-transport.js';
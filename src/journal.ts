@@ -0,0 +1,187 @@
+import { appendFile, mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { getMetricsConfig } from './config.js';
+import type { JournalEvent, JournalEventInput } from './types.js';
+
+function isMissing(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as NodeJS.ErrnoException).code === 'ENOENT'
+  );
+}
+
+function isJournalEvent(value: unknown): value is JournalEvent {
+  if (!value || typeof value !== 'object') return false;
+  const event = value as Record<string, unknown>;
+  return (
+    typeof event.seq === 'number' &&
+    typeof event.at === 'number' &&
+    (event.type === 'pageView' || event.type === 'error')
+  );
+}
+
+interface JournalCheckpoint {
+  type: 'checkpoint';
+  seq: number;
+}
+
+function isCheckpoint(value: unknown): value is JournalCheckpoint {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return entry.type === 'checkpoint' && typeof entry.seq === 'number';
+}
+
+function parseLine(line: string): JournalEvent | JournalCheckpoint | undefined {
+  try {
+    const parsed: unknown = JSON.parse(line);
+    return isJournalEvent(parsed) || isCheckpoint(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export class EventJournal {
+  private seq = 0;
+  private opened: Promise<JournalEvent[]> | null = null;
+  private isOpen = false;
+  private unsequenced: JournalEventInput[] = [];
+  private buffer: string[] = [];
+  private writes: Promise<void> = Promise.resolve();
+  private flushScheduled = false;
+
+  constructor(private readonly file: string) {}
+
+  get lastSeq(): number {
+    return this.seq;
+  }
+
+
+  open(afterSeq = 0): Promise<JournalEvent[]> {
+    if (!this.opened) {
+      this.opened = this.readEntries().then(({ events, lastSeq }) => {
+        this.seq = Math.max(afterSeq, lastSeq);
+        this.isOpen = true;
+        const pending = this.unsequenced;
+        this.unsequenced = [];
+        pending.forEach((event) => this.append(event));
+        return events;
+      });
+    }
+    return this.opened;
+  }
+
+
+  append(event: JournalEventInput): void {
+    if (!this.isOpen) {
+      this.unsequenced.push(event);
+      return;
+    }
+    const entry = { ...event, seq: ++this.seq } as JournalEvent;
+    this.buffer.push(JSON.stringify(entry) + '\n');
+    if (!this.flushScheduled) {
+      this.flushScheduled = true;
+      queueMicrotask(() => {
+        this.flushScheduled = false;
+        this.enqueue(() => this.writeBuffer()).catch(() => {});
+      });
+    }
+  }
+
+
+  async flush(): Promise<void> {
+    await this.enqueue(() => this.writeBuffer());
+  }
+
+
+  async compact(throughSeq: number): Promise<void> {
+    await this.enqueue(async () => {
+      await this.writeBuffer();
+      const kept = (await this.read()).filter((event) => event.seq > throughSeq);
+      const checkpoint: JournalCheckpoint = {
+        type: 'checkpoint',
+        seq: throughSeq,
+      };
+      const temp = `${this.file}.${process.pid}.${Date.now()}.tmp`;
+      try {
+        await writeFile(
+          temp,
+          [checkpoint, ...kept]
+            .map((entry) => JSON.stringify(entry) + '\n')
+            .join(''),
+          { flush: true },
+        );
+        await rename(temp, this.file);
+      } catch (error) {
+        await unlink(temp).catch(() => {});
+        throw error;
+      }
+    });
+  }
+
+  async read(): Promise<JournalEvent[]> {
+    return (await this.readEntries()).events;
+  }
+
+  private async readEntries(): Promise<{
+    events: JournalEvent[];
+    lastSeq: number;
+  }> {
+    let raw: string;
+    try {
+      raw = await readFile(this.file, 'utf-8');
+    } catch (error) {
+      if (isMissing(error)) return { events: [], lastSeq: 0 };
+      throw error;
+    }
+
+    const events: JournalEvent[] = [];
+    let lastSeq = 0;
+    let skipped = 0;
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      const entry = parseLine(line);
+      if (!entry) {
+        skipped++;
+        continue;
+      }
+      lastSeq = Math.max(lastSeq, entry.seq);
+      if (entry.type !== 'checkpoint') events.push(entry);
+    }
+    if (skipped > 0) {
+      getMetricsConfig()
+        .getLogger()
+        .warn('[EventJournal] Skipped unreadable journal entries', {
+          file: this.file,
+          skipped,
+        });
+    }
+    return { events: events.sort((a, b) => a.seq - b.seq), lastSeq };
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.writes.then(task);
+    this.writes = next.catch((error) => {
+      getMetricsConfig()
+        .getLogger()
+        .error('[EventJournal] Failed to write journal', {
+          file: this.file,
+          error: error instanceof Error ? error.message : String(error),
+        });
+    });
+    return next;
+  }
+
+  private async writeBuffer(): Promise<void> {
+    if (this.buffer.length === 0) return;
+    const lines = this.buffer.join('');
+    this.buffer = [];
+    try {
+      await mkdir(dirname(this.file), { recursive: true });
+      await appendFile(this.file, lines);
+    } catch (error) {
+      this.buffer.unshift(lines);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { getMetricsConfig } from './config.js';
+import { METRICS_DELTA, getEventStreamManager } from './event-stream.js';
+import type { ClientChange, EventStreamManager } from './event-stream.js';
+import type { MetricsCollector } from './metrics-collector.js';
+import type { MetricsData } from './types.js';
+
+export interface MetricsBroadcasterOptions {
+  
+  intervalMs?: number;
+  
+  deltas?: boolean;
+  
+  fullSnapshotEvery?: number;
+  
+  manager?: EventStreamManager;
+}
+
+
+export function diffMetrics(
+  previous: MetricsData,
+  current: MetricsData,
+): Partial<MetricsData> {
+  const changed: Record<string, unknown> = {};
+  for (const key of Object.keys(current) as Array<keyof MetricsData>) {
+    if (JSON.stringify(previous[key]) !== JSON.stringify(current[key])) {
+      changed[key] = current[key];
+    }
+  }
+  return changed as Partial<MetricsData>;
+}
+
+export class MetricsBroadcaster {
+  private readonly manager: EventStreamManager;
+  private collector: MetricsCollector | null = null;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private previous: MetricsData | null = null;
+  private ticksSinceFull = 0;
+
+  constructor(private readonly options: MetricsBroadcasterOptions = {}) {
+    this.manager = options.manager ?? getEventStreamManager();
+  }
+
+  get running(): boolean {
+    return this.interval !== null;
+  }
+
+
+  start(collector: MetricsCollector): void {
+    if (this.unsubscribe) return;
+    this.collector = collector;
+    this.unsubscribe = this.manager.onClientChange((change) =>
+      this.onClientChange(change),
+    );
+    if (this.manager.getClientCount() > 0) this.resume();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.pause();
+    this.collector = null;
+  }
+
+
+  tick(): void {
+    if (!this.collector || this.manager.getClientCount() === 0) return;
+    const metrics = this.collector.getMetrics();
+    const fullEvery = this.options.fullSnapshotEvery ?? 10;
+
+    if (
+      !this.options.deltas ||
+      !this.previous ||
+      this.ticksSinceFull + 1 >= fullEvery
+    ) {
+      this.manager.broadcastLocal({
+        type: 'metrics',
+        timestamp: Date.now(),
+        data: metrics,
+      });
+      this.ticksSinceFull = 0;
+    } else {
+      const changed = diffMetrics(this.previous, metrics);
+      this.ticksSinceFull++;
+      if (Object.keys(changed).length > 0) {
+        this.manager.broadcastLocal({
+          type: 'metrics',
+          timestamp: Date.now(),
+          message: METRICS_DELTA,
+          data: changed,
+        });
+      }
+    }
+    this.previous = metrics;
+  }
+
+  private onClientChange(change: ClientChange): void {
+    if (change.clientCount === 0) {
+      this.pause();
+      return;
+    }
+    if (change.connected) {
+      this.previous = null;
+      if (!this.interval) this.resume();
+    }
+  }
+
+  private resume(): void {
+    this.interval = setInterval(
+      () => this.safeTick(),
+      this.options.intervalMs ?? 5000,
+    );
+    this.interval.unref();
+    this.safeTick();
+  }
+
+  private pause(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    this.previous = null;
+  }
+
+  private safeTick(): void {
+    try {
+      this.tick();
+    } catch (error) {
+      getMetricsConfig()
+        .getLogger()
+        .error('[MetricsBroadcaster] Failed to broadcast metrics', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+    }
+  }
+}
@@ -8,30 +8,149 @@
 
 
 
-import { readFile, writeFile } from 'fs/promises';
 import { join } from 'path';
 import { getMetricsConfig } from './config.js';
+import { ErrorTracker } from './error-tracker.js';
+import { DurationHistogram } from './histogram.js';
+import {
+  HyperLogLog,
+  mergeVisitors,
+  restoreVisitors,
+  serializeVisitors,
+} from './hyperloglog.js';
+import { EventJournal } from './journal.js';
+import { OtlpExporter } from './otlp-exporter.js';
+import { formatPrometheus } from './prometheus.js';
+import type { PrometheusOptions } from './prometheus.js';
+import { MetricsRegistry } from './registry.js';
+import type { Counter, Histogram } from './registry.js';
+import {
+  METRICS_WINDOW_MS,
+  ROLLUP_RESOLUTION_MS,
+  RollupStore,
+} from './rollups.js';
+import { MemoryStore, createMetricsStore } from './store.js';
+import type { MetricsStore } from './store.js';
+import { VitalsAggregator } from './vitals.js';
 import type {
+  CollectorSnapshot,
+  JournalEventInput,
   MetricsData,
+  MetricsQuery,
   PageMetrics,
+  PageStats,
+  PersistedMetrics,
+  RouteErrorStats,
+  RouteRequestDuration,
+  SerializedPageMetrics,
+  SerializedSessionMetrics,
   SessionMetrics,
+  TimeSeriesMetric,
+  TimeSeriesPoint,
+  TimeSeriesQuery,
   TopPage,
+  TrackErrorInput,
+  TrackRequestInput,
   TrafficSource,
+  VisitorSet,
+  VitalsReport,
+  WebVitalSample,
+  WindowedMetricsData,
 } from './types.js';
 
+export interface MetricsCollectorOptions {
+  
+  ephemeral?: boolean;
+}
+
+export const COLLECTOR_SNAPSHOT_VERSION = 1;
+
 export class MetricsCollector {
   private pageMetrics = new Map<string, PageMetrics>();
   private sessionMetrics = new Map<string, SessionMetrics>();
-  private requestCount = 0;
-  private errorCount = 0;
   private startTime = Date.now();
+  readonly registry = new MetricsRegistry();
+  private readonly builtinMetrics = new Set<string>();
+  private requestsTotal: Counter;
+  private errorsTotal: Counter;
+  private requestDuration: Histogram;
+  private rollups: RollupStore;
+  private errorTracker: ErrorTracker;
+  private vitals = new VitalsAggregator();
+  private store: MetricsStore;
+  private journal: EventJournal | null = null;
+  private readonly createVisitors: () => VisitorSet;
 
   private cleanupInterval: ReturnType<typeof setInterval> | null = null;
   private persistInterval: ReturnType<typeof setInterval> | null = null;
+  private otlpExporter: OtlpExporter | null = null;
+  private loading: Promise<void> | null = null;
+  private loadFailed = false;
+  private destroying: Promise<void> | null = null;
+  private readonly instances = new Set<string>();
+  readonly instanceId: string | null = null;
+
+  static async create(): Promise<MetricsCollector> {
+    const collector = new MetricsCollector();
+    await collector.ready();
+    return collector;
+  }
+
+  
+  static fromSnapshot(snapshot: CollectorSnapshot): MetricsCollector {
+    const collector = new MetricsCollector({ ephemeral: true });
+    collector.merge(snapshot);
+    return collector;
+  }
 
-  constructor() {
+  constructor(options: MetricsCollectorOptions = {}) {
     const cfg = getMetricsConfig();
 
+    this.requestsTotal = this.registry.counter('requests_total', {
+      help: 'Total requests tracked.',
+      persist: false,
+    });
+    this.errorsTotal = this.registry.counter('errors_total', {
+      help: 'Total errors tracked.',
+      persist: false,
+    });
+    this.requestDuration = this.registry.histogram(
+      'request_duration_milliseconds',
+      {
+        help: 'Request duration in milliseconds by route and status class.',
+        labels: ['method', 'path', 'status'],
+        unit: 'ms',
+        buckets: cfg.requestDurationBucketsMs,
+        persist: false,
+      },
+    );
+    this.createVisitors =
+      cfg.uniqueVisitors === 'hyperloglog'
+        ? () => new HyperLogLog(cfg.hyperLogLogPrecision)
+        : () => new Set<string>();
+    this.rollups = new RollupStore(cfg.rollupRetention, this.createVisitors);
+    this.errorTracker = new ErrorTracker(
+      cfg.maxErrorGroups,
+      this.createVisitors,
+    );
+    this.registerBuiltinGauges();
+    this.registry.names().forEach((name) => this.builtinMetrics.add(name));
+
+    if (options.ephemeral) {
+      this.store = new MemoryStore();
+      this.loading = Promise.resolve();
+      return;
+    }
+
+    this.instanceId = cfg.instanceId;
+    this.instances.add(cfg.instanceId);
+    this.store = createMetricsStore(cfg);
+    if (cfg.journal) {
+      this.journal = new EventJournal(
+        cfg.journalFile ?? join(cfg.dataDir, 'events.ndjson'),
+      );
+    }
+
     
     this.loadPersistedData();
 
@@ -47,6 +166,11 @@ export class MetricsCollector {
     }, cfg.persistIntervalMs);
     this.persistInterval.unref();
 
+    if (cfg.otlp) {
+      this.otlpExporter = new OtlpExporter(this, cfg.otlp);
+      this.otlpExporter.start();
+    }
+
     
     if (cfg.registerShutdownHook) {
       process.on('beforeExit', () => {
@@ -67,48 +191,123 @@ export class MetricsCollector {
     referrer?: string,
     userAgent?: string,
   ): void {
+    this.record({
+      type: 'pageView',
+      at: Date.now(),
+      sessionId,
+      path,
+      userId,
+      referrer,
+      userAgent,
+    });
+  }
+
+  
+  trackRequest(request: TrackRequestInput): void {
+    this.requestsTotal.inc();
+    this.rollups.recordRequest(request.path);
+    this.requestDuration.observe(
+      {
+        method: request.method.toUpperCase(),
+        path: request.path,
+        status: `${Math.floor(request.status / 100)}xx`,
+      },
+      request.durationMs,
+    );
+  }
+
+  
+  trackError(error: TrackErrorInput): void;
+  trackError(sessionId?: string, errorType?: string): void;
+  trackError(input?: string | TrackErrorInput, errorType?: string): void {
+    const error: TrackErrorInput =
+      typeof input === 'object' && input !== null
+        ? input
+        : { sessionId: input, type: errorType };
+    this.record({
+      type: 'error',
+      at: Date.now(),
+      sessionId: error.sessionId,
+      errorType: error.type,
+      path: error.path,
+      status: error.status,
+      message: error.message,
+    });
+  }
+
+  
+  trackWebVitals(samples: WebVitalSample[]): void {
+    const at = Date.now();
+    samples.forEach((sample) => this.vitals.record(sample, at));
+  }
+
+  private record(event: JournalEventInput): void {
+    this.journal?.append(event);
+    this.apply(event);
+  }
+
+  private apply(event: JournalEventInput): void {
+    if (event.type === 'error') {
+      this.errorsTotal.inc();
+      this.rollups.recordError(event.at, event.path);
+      this.errorTracker.record(
+        {
+          type: event.errorType,
+          path: event.path,
+          status: event.status,
+          message: event.message,
+          sessionId: event.sessionId,
+        },
+        event.at,
+      );
+      return;
+    }
+
+    const { sessionId, path, at } = event;
+    const now = new Date(at);
+
     
     let pageData = this.pageMetrics.get(path);
     if (!pageData) {
       pageData = {
         path,
         views: 0,
-        uniqueVisitors: new Set<string>(),
-        lastAccessed: new Date(),
+        uniqueVisitors: this.createVisitors(),
+        lastAccessed: now,
       };
       this.pageMetrics.set(path, pageData);
     }
     pageData.views++;
     pageData.uniqueVisitors.add(sessionId);
-    pageData.lastAccessed = new Date();
+    if (now > pageData.lastAccessed) {
+      pageData.lastAccessed = now;
+    }
 
     
     let session = this.sessionMetrics.get(sessionId);
     if (!session) {
+      this.rollups.recordSession(this.categorizeReferrer(event.referrer), at);
       session = {
         sessionId,
-        userId,
-        startTime: new Date(),
-        lastActivity: new Date(),
+        userId: event.userId,
+        startTime: now,
+        lastActivity: now,
         pageViews: 0,
         pages: [],
-        referrer,
-        userAgent,
+        referrer: event.referrer,
+        userAgent: event.userAgent,
       };
       this.sessionMetrics.set(sessionId, session);
     }
-    session.lastActivity = new Date();
+    if (now > session.lastActivity) {
+      session.lastActivity = now;
+    }
     session.pageViews++;
     if (!session.pages.includes(path)) {
       session.pages.push(path);
     }
 
-    this.requestCount++;
-  }
-
-  
-  trackError(_sessionId?: string, _errorType?: string): void {
-    this.errorCount++;
+    this.rollups.recordPageView(sessionId, path, at);
   }
 
   
@@ -118,7 +317,13 @@ export class MetricsCollector {
   }
 
   
-  getMetrics(): MetricsData {
+  getMetrics(): MetricsData;
+  getMetrics(query: MetricsQuery): WindowedMetricsData;
+  getMetrics(query?: MetricsQuery): MetricsData | WindowedMetricsData {
+    if (query) {
+      return this.getWindowedMetrics(query);
+    }
+
     const now = Date.now();
     const uptime = (now - this.startTime) / 1000;
 
@@ -180,27 +385,140 @@ export class MetricsCollector {
       totalVisitors: this.sessionMetrics.size,
       activeUsers: activeSessions.length,
       pageViews: totalPageViews,
-      totalRequests: this.requestCount,
-      totalErrors: this.errorCount,
+      totalRequests: this.requestsTotal.get(),
+      totalErrors: this.errorsTotal.get(),
       avgSessionDuration: `${avgDurationMinutes}m ${avgDurationSeconds}s`,
       bounceRate: Math.round(bounceRate * 10) / 10,
       topPages: topPagesWithPercentages,
       trafficSources,
       activeSessions: activeSessions.length,
       uptime,
-      requestRate: this.requestCount / uptime,
-      errorRate: this.errorCount / uptime,
-      requestDuration: {
-        bucket1: Math.floor(this.requestCount * 0.7),
-        bucket2: Math.floor(this.requestCount * 0.9),
-        bucket3: Math.floor(this.requestCount * 0.98),
-        total: this.requestCount,
-      },
+      requestRate: this.requestsTotal.get() / uptime,
+      errorRate: this.errorsTotal.get() / uptime,
+      requestDuration: this.requestDuration.merged().snapshot(),
+      requestDurationByRoute: this.getRouteDurations(),
+      topErrors: this.errorTracker.topErrors(),
+      errorsByType: this.errorTracker.byType(),
+      errorsByRoute: this.getRouteErrors(),
+      webVitals: this.vitals.summary(),
+      custom: this.registry.snapshot(
+        (metric) => !this.builtinMetrics.has(metric.name),
+      ),
     };
   }
 
   
-  destroy(): void {
+  private getWindowedMetrics(query: MetricsQuery): WindowedMetricsData {
+    const now = Date.now();
+    const rawTo = query.to !== undefined ? new Date(query.to).getTime() : now;
+    const span = METRICS_WINDOW_MS[query.window ?? '24h'];
+    const rawFrom =
+      query.from !== undefined ? new Date(query.from).getTime() : rawTo - span;
+
+    const resolution = this.rollups.resolutionFor(rawFrom);
+    const size = ROLLUP_RESOLUTION_MS[resolution];
+    const to = Math.ceil(rawTo / size) * size;
+    const from =
+      query.from !== undefined ? Math.floor(rawFrom / size) * size : to - span;
+
+    const current = this.rollups.aggregate(from, to, resolution);
+    if (query.compare) {
+      current.previous = this.rollups.aggregate(
+        from - (to - from),
+        from,
+        resolution,
+      );
+    }
+    return current;
+  }
+
+  
+  getTimeSeries(
+    metric: TimeSeriesMetric,
+    query: TimeSeriesQuery,
+  ): TimeSeriesPoint[] {
+    const from = new Date(query.from).getTime();
+    const to =
+      query.to !== undefined ? new Date(query.to).getTime() : Date.now();
+    return this.rollups.series(metric, from, to, query.step, query.path);
+  }
+
+  get startedAt(): number {
+    return this.startTime;
+  }
+
+  
+  getPageStats(): PageStats[] {
+    return Array.from(this.pageMetrics.values()).map((page) => ({
+      path: page.path,
+      views: page.views,
+      uniqueVisitors: page.uniqueVisitors.size,
+    }));
+  }
+
+  
+  getRouteDurations(): RouteRequestDuration[] {
+    const routes = new Map<
+      string,
+      { path: string; method: string; histogram: DurationHistogram }
+    >();
+    for (const series of this.requestDuration.serialize().series) {
+      const { method, path } = series.labels;
+      const histogram = DurationHistogram.fromJSON(series.histogram!);
+      const key = `${method} ${path}`;
+      const route = routes.get(key);
+      if (route) {
+        route.histogram.merge(histogram);
+      } else {
+        routes.set(key, { path, method, histogram });
+      }
+    }
+    return Array.from(routes.values())
+      .map(({ path, method, histogram }) => ({
+        path,
+        method,
+        ...histogram.snapshot(),
+      }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  
+  getRouteErrors(): RouteErrorStats[] {
+    const requests = new Map<string, number>();
+    for (const series of this.requestDuration.snapshot().series) {
+      const path = series.labels.path;
+      requests.set(path, (requests.get(path) ?? 0) + series.histogram!.count);
+    }
+
+    return Array.from(this.errorTracker.byPath().entries())
+      .map(([path, errors]) => {
+        const total =
+          requests.get(path) ?? this.pageMetrics.get(path)?.views ?? 0;
+        return {
+          path,
+          errors,
+          requests: total,
+          ratio: total > 0 ? errors / total : null,
+        };
+      })
+      .sort((a, b) => b.errors - a.errors);
+  }
+
+  
+  getVitalsReport(): VitalsReport {
+    return this.vitals.report();
+  }
+
+  
+  toPrometheus(options: PrometheusOptions = {}): string {
+    return formatPrometheus(
+      this.registry.toPrometheusFamilies(options.namespace ?? 'tinyland'),
+    );
+  }
+
+  
+  destroy(): Promise<void> {
+    if (this.destroying) return this.destroying;
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
       this.cleanupInterval = null;
@@ -209,7 +527,13 @@ export class MetricsCollector {
       clearInterval(this.persistInterval);
       this.persistInterval = null;
     }
-    this.persistData();
+    const exporter = this.otlpExporter;
+    this.otlpExporter = null;
+    this.destroying = Promise.all([
+      exporter?.destroy(),
+      this.persistData().finally(() => this.store.close?.()),
+    ]).then(() => undefined);
+    return this.destroying;
   }
 
   
@@ -283,6 +607,56 @@ export class MetricsCollector {
   }
 
   
+  private registerBuiltinGauges(): void {
+    this.registry.counter('page_views_total', {
+      help: 'Total page views by path.',
+      labels: ['path'],
+      maxSeries: Infinity,
+      persist: false,
+      collect: (counter) => {
+        counter.reset();
+        for (const page of this.pageMetrics.values()) {
+          counter.inc({ path: page.path }, page.views);
+        }
+      },
+    });
+    this.registry.gauge('page_unique_visitors', {
+      help: 'Unique sessions that visited each path.',
+      labels: ['path'],
+      maxSeries: Infinity,
+      persist: false,
+      collect: (gauge) => {
+        gauge.reset();
+        for (const page of this.pageMetrics.values()) {
+          gauge.set({ path: page.path }, page.uniqueVisitors.size);
+        }
+      },
+    });
+    this.registry.gauge('sessions', {
+      help: 'Sessions currently tracked by the collector.',
+      persist: false,
+      collect: (gauge) => gauge.set(this.sessionMetrics.size),
+    });
+    this.registry.gauge('active_sessions', {
+      help: 'Sessions active within the last 30 minutes.',
+      persist: false,
+      collect: (gauge) => {
+        const thirtyMinutesAgo = new Date(Date.now() - 30 * 60 * 1000);
+        gauge.set(
+          Array.from(this.sessionMetrics.values()).filter(
+            (session) => session.lastActivity > thirtyMinutesAgo,
+          ).length,
+        );
+      },
+    });
+    this.registry.gauge('uptime_seconds', {
+      help: 'Seconds since the collector started.',
+      persist: false,
+      collect: (gauge) => gauge.set((Date.now() - this.startTime) / 1000),
+    });
+  }
+
+  
   cleanupOldSessions(): void {
     const logger = getMetricsConfig().getLogger();
     const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
@@ -304,56 +678,200 @@ export class MetricsCollector {
   }
 
   
-  async loadPersistedData(): Promise<void> {
+  ready(): Promise<void> {
+    return this.loadPersistedData();
+  }
+
+  
+  loadPersistedData(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.mergePersistedData();
+    }
+    return this.loading;
+  }
+
+  private async mergePersistedData(): Promise<void> {
+    const cfg = getMetricsConfig();
+    const logger = cfg.getLogger();
+    let data: PersistedMetrics;
+
+    try {
+      data = await this.store.load();
+    } catch (error) {
+      await this.pausePersistence(
+        '[MetricsCollector] Failed to load persisted metrics',
+        error,
+      );
+      return;
+    }
+
+    try {
+      this.mergePages(data.pages ?? []);
+      this.mergeSessions(data.sessions ?? []);
+
+      if (data.registry) {
+        this.registry.restore(data.registry);
+      }
+      if (data.rollups) {
+        this.rollups.restore(data.rollups);
+      }
+      if (data.errorGroups) {
+        this.errorTracker.restore(data.errorGroups);
+      }
+    } catch (error) {
+      await this.pausePersistence(
+        '[MetricsCollector] Failed to merge persisted metrics',
+        error,
+      );
+      return;
+    }
+    this.loadFailed = false;
+
+    if (cfg.isDevelopment) {
+      logger.info(
+        data.pages || data.sessions
+          ? '[MetricsCollector] Loaded persisted metrics'
+          : '[MetricsCollector] No persisted metrics found, starting fresh',
+      );
+    }
+
+    if (this.journal) {
+      await this.replayJournal(this.journal, data.journalSeq ?? 0);
+    }
+  }
+
+  private async pausePersistence(
+    message: string,
+    error: unknown,
+  ): Promise<void> {
+    const logger = getMetricsConfig().getLogger();
+    this.loadFailed = true;
+    logger.error(`${message}, persistence is paused until a load succeeds`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    try {
+      await this.journal?.open();
+    } catch (openError) {
+      logger.error('[MetricsCollector] Failed to open event journal', {
+        error:
+          openError instanceof Error ? openError.message : String(openError),
+      });
+    }
+  }
+
+  private async replayJournal(
+    journal: EventJournal,
+    afterSeq: number,
+  ): Promise<void> {
     const cfg = getMetricsConfig();
     const logger = cfg.getLogger();
-    const pageMetricsFile = join(cfg.dataDir, 'page-metrics.json');
-    const sessionMetricsFile = join(cfg.dataDir, 'session-metrics.json');
 
     try {
-      const pageData = await readFile(pageMetricsFile, 'utf-8');
-      const pages = JSON.parse(pageData) as Array<{
-        path: string;
-        views: number;
-        uniqueVisitors: string[];
-        lastAccessed: string;
-      }>;
-      for (const page of pages) {
+      const events = (await journal.open(afterSeq)).filter(
+        (event) => event.seq > afterSeq,
+      );
+      events.forEach((event) => this.apply(event));
+
+      if (cfg.isDevelopment && events.length > 0) {
+        logger.info('[MetricsCollector] Replayed event journal', {
+          events: events.length,
+        });
+      }
+    } catch (error) {
+      logger.error('[MetricsCollector] Failed to replay event journal', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  
+  merge(snapshot: CollectorSnapshot): void {
+    this.mergePages(snapshot.pages ?? []);
+    this.mergeSessions(snapshot.sessions ?? []);
+    if (snapshot.registry) {
+      this.registry.restore(snapshot.registry);
+    }
+    if (snapshot.rollups) {
+      this.rollups.restore(snapshot.rollups);
+    }
+    if (snapshot.errorGroups) {
+      this.errorTracker.restore(snapshot.errorGroups);
+    }
+    this.requestsTotal.inc(snapshot.requests);
+    this.errorsTotal.inc(snapshot.errors);
+    this.requestDuration.restore(snapshot.requestDuration);
+    this.startTime = Math.min(
+      this.startTime,
+      new Date(snapshot.startTime).getTime(),
+    );
+    snapshot.instances.forEach((id) => this.instances.add(id));
+  }
+
+  
+  snapshot(): CollectorSnapshot {
+    const { journalSeq: _journalSeq, ...data } = this.serialize();
+    return {
+      ...data,
+      version: COLLECTOR_SNAPSHOT_VERSION,
+      instances: Array.from(this.instances).sort(),
+      takenAt: new Date().toISOString(),
+      startTime: new Date(this.startTime).toISOString(),
+      requests: this.requestsTotal.get(),
+      errors: this.errorsTotal.get(),
+      requestDuration: this.requestDuration.serialize(),
+    };
+  }
+
+  private mergePages(pages: SerializedPageMetrics[]): void {
+    for (const page of pages) {
+      const lastAccessed = new Date(page.lastAccessed);
+      const live = this.pageMetrics.get(page.path);
+      if (!live) {
         this.pageMetrics.set(page.path, {
           ...page,
-          uniqueVisitors: new Set(page.uniqueVisitors),
-          lastAccessed: new Date(page.lastAccessed),
+          uniqueVisitors: restoreVisitors(
+            page.uniqueVisitors,
+            this.createVisitors,
+          ),
+          lastAccessed,
         });
+        continue;
+      }
+      live.views += page.views;
+      live.uniqueVisitors = mergeVisitors(
+        live.uniqueVisitors,
+        restoreVisitors(page.uniqueVisitors, this.createVisitors),
+      );
+      if (lastAccessed > live.lastAccessed) {
+        live.lastAccessed = lastAccessed;
       }
+    }
+  }
 
-      const sessionData = await readFile(sessionMetricsFile, 'utf-8');
-      const sessions = JSON.parse(sessionData) as Array<{
-        sessionId: string;
-        userId?: string;
-        startTime: string;
-        lastActivity: string;
-        pageViews: number;
-        pages: string[];
-        referrer?: string;
-        userAgent?: string;
-      }>;
-      for (const session of sessions) {
+  private mergeSessions(sessions: SerializedSessionMetrics[]): void {
+    for (const session of sessions) {
+      const startTime = new Date(session.startTime);
+      const lastActivity = new Date(session.lastActivity);
+      const live = this.sessionMetrics.get(session.sessionId);
+      if (!live) {
         this.sessionMetrics.set(session.sessionId, {
           ...session,
-          startTime: new Date(session.startTime),
-          lastActivity: new Date(session.lastActivity),
+          startTime,
+          lastActivity,
         });
+        continue;
       }
-
-      if (cfg.isDevelopment) {
-        logger.info('[MetricsCollector] Loaded persisted metrics');
-      }
-    } catch {
-      if (cfg.isDevelopment) {
-        logger.info(
-          '[MetricsCollector] No persisted metrics found, starting fresh',
-        );
-      }
+      if (startTime < live.startTime) live.startTime = startTime;
+      if (lastActivity > live.lastActivity) live.lastActivity = lastActivity;
+      live.pageViews += session.pageViews;
+      live.pages = [
+        ...session.pages,
+        ...live.pages.filter((p) => !session.pages.includes(p)),
+      ];
+      live.userId ??= session.userId;
+      live.referrer ??= session.referrer;
+      live.userAgent ??= session.userAgent;
     }
   }
 
@@ -361,23 +879,24 @@ export class MetricsCollector {
   async persistData(): Promise<void> {
     const cfg = getMetricsConfig();
     const logger = cfg.getLogger();
-    const pageMetricsFile = join(cfg.dataDir, 'page-metrics.json');
-    const sessionMetricsFile = join(cfg.dataDir, 'session-metrics.json');
 
     try {
-      const pages = Array.from(this.pageMetrics.entries()).map(
-        ([path, data]) => ({
-          path,
-          views: data.views,
-          uniqueVisitors: Array.from(data.uniqueVisitors),
-          lastAccessed: data.lastAccessed,
-        }),
-      );
-
-      const sessions = Array.from(this.sessionMetrics.values());
-
-      await writeFile(pageMetricsFile, JSON.stringify(pages, null, 2));
-      await writeFile(sessionMetricsFile, JSON.stringify(sessions, null, 2));
+      await this.ready();
+      if (this.loadFailed) {
+        this.loading = null;
+        await this.ready();
+      }
+      if (this.loadFailed) {
+        logger.warn(
+          '[MetricsCollector] Skipped persisting metrics because persisted data could not be loaded',
+        );
+        return;
+      }
+      const data = this.serialize();
+      await this.store.save(data);
+      if (this.journal && data.journalSeq !== undefined) {
+        await this.journal.compact(data.journalSeq);
+      }
 
       if (cfg.isDevelopment) {
         logger.info('[MetricsCollector] Persisted metrics to disk');
@@ -388,6 +907,27 @@ export class MetricsCollector {
       });
     }
   }
+
+  
+  serialize(): PersistedMetrics {
+    return {
+      pages: Array.from(this.pageMetrics.entries()).map(([path, data]) => ({
+        path,
+        views: data.views,
+        uniqueVisitors: serializeVisitors(data.uniqueVisitors),
+        lastAccessed: data.lastAccessed.toISOString(),
+      })),
+      sessions: Array.from(this.sessionMetrics.values()).map((session) => ({
+        ...session,
+        startTime: session.startTime.toISOString(),
+        lastActivity: session.lastActivity.toISOString(),
+      })),
+      registry: this.registry.serialize(),
+      rollups: this.rollups.serialize(),
+      errorGroups: this.errorTracker.serialize(),
+      journalSeq: this.journal?.lastSeq,
+    };
+  }
 }
 
 
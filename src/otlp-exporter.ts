@@ -0,0 +1,312 @@
+import { getMetricsConfig } from './config.js';
+import type { OtlpExporterConfig } from './config.js';
+import type { MetricSnapshot } from './types.js';
+
+export interface OtlpAnyValue {
+  stringValue?: string;
+  intValue?: string;
+  doubleValue?: number;
+  boolValue?: boolean;
+}
+
+
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+
+export interface OtlpNumberDataPoint {
+  attributes: OtlpKeyValue[];
+  startTimeUnixNano: string;
+  timeUnixNano: string;
+  asInt?: string;
+  asDouble?: number;
+}
+
+
+export interface OtlpHistogramDataPoint {
+  attributes: OtlpKeyValue[];
+  startTimeUnixNano: string;
+  timeUnixNano: string;
+  count: string;
+  sum: number;
+  bucketCounts: string[];
+  explicitBounds: number[];
+}
+
+
+export interface OtlpSummaryDataPoint {
+  attributes: OtlpKeyValue[];
+  startTimeUnixNano: string;
+  timeUnixNano: string;
+  count: string;
+  sum: number;
+  quantileValues: Array<{ quantile: number; value: number }>;
+}
+
+
+export interface OtlpMetric {
+  name: string;
+  description: string;
+  unit: string;
+  sum?: {
+    dataPoints: OtlpNumberDataPoint[];
+    aggregationTemporality: number;
+    isMonotonic: boolean;
+  };
+  gauge?: {
+    dataPoints: OtlpNumberDataPoint[];
+  };
+  histogram?: {
+    dataPoints: OtlpHistogramDataPoint[];
+    aggregationTemporality: number;
+  };
+  summary?: {
+    dataPoints: OtlpSummaryDataPoint[];
+  };
+}
+
+
+export interface OtlpExportMetricsServiceRequest {
+  resourceMetrics: Array<{
+    resource: { attributes: OtlpKeyValue[] };
+    scopeMetrics: Array<{
+      scope: { name: string; version: string };
+      metrics: OtlpMetric[];
+    }>;
+  }>;
+}
+
+
+export interface OtlpMetricsSource {
+  readonly registry: { snapshot(): MetricSnapshot[] };
+  readonly startedAt: number;
+}
+
+const AGGREGATION_TEMPORALITY_CUMULATIVE = 2;
+const RETRYABLE_STATUS = new Set([429, 502, 503, 504]);
+const SCOPE_NAME = '@tummycrypt/tinyland-metrics';
+const SCOPE_VERSION = '0.2.0';
+
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.floor(ms)) * 1000000n).toString();
+}
+
+function attributes(record: Record<string, string>): OtlpKeyValue[] {
+  return Object.entries(record).map(([key, value]) => ({
+    key,
+    value: { stringValue: value },
+  }));
+}
+
+function otlpMetricName(metric: MetricSnapshot): string {
+  const name =
+    metric.type === 'counter' ? metric.name.replace(/_total$/, '') : metric.name;
+  return `tinyland.${name}`;
+}
+
+
+function registryMetricToOtlp(
+  metric: MetricSnapshot,
+  startTimeUnixNano: string,
+  timeUnixNano: string,
+): OtlpMetric {
+  const base = {
+    name: otlpMetricName(metric),
+    description: metric.help,
+    unit: metric.unit ?? '1',
+  };
+  const common = (labels: Record<string, string>) => ({
+    attributes: attributes(labels),
+    startTimeUnixNano,
+    timeUnixNano,
+  });
+
+  switch (metric.type) {
+    case 'counter':
+      return {
+        ...base,
+        sum: {
+          dataPoints: metric.series.map((series) => ({
+            ...common(series.labels),
+            asDouble: series.value ?? 0,
+          })),
+          aggregationTemporality: AGGREGATION_TEMPORALITY_CUMULATIVE,
+          isMonotonic: true,
+        },
+      };
+    case 'gauge':
+      return {
+        ...base,
+        gauge: {
+          dataPoints: metric.series.map((series) => ({
+            ...common(series.labels),
+            asDouble: series.value ?? 0,
+          })),
+        },
+      };
+    case 'histogram':
+      return {
+        ...base,
+        histogram: {
+          dataPoints: metric.series.map((series) => {
+            const histogram = series.histogram!;
+            let previous = 0;
+            const bucketCounts = histogram.buckets.map((bucket) => {
+              const count = bucket.count - previous;
+              previous = bucket.count;
+              return String(count);
+            });
+            bucketCounts.push(String(histogram.count - previous));
+            return {
+              ...common(series.labels),
+              count: String(histogram.count),
+              sum: histogram.sum,
+              bucketCounts,
+              explicitBounds: histogram.buckets.map((bucket) => bucket.le),
+            };
+          }),
+          aggregationTemporality: AGGREGATION_TEMPORALITY_CUMULATIVE,
+        },
+      };
+    case 'summary':
+      return {
+        ...base,
+        summary: {
+          dataPoints: metric.series.map((series) => ({
+            ...common(series.labels),
+            count: String(series.summary!.count),
+            sum: series.summary!.sum,
+            quantileValues: series.summary!.quantiles,
+          })),
+        },
+      };
+  }
+}
+
+
+export function buildOtlpPayload(
+  source: OtlpMetricsSource,
+  options: Pick<OtlpExporterConfig, 'serviceName' | 'resourceAttributes'> = {},
+  now: number = Date.now(),
+): OtlpExportMetricsServiceRequest {
+  const startTimeUnixNano = toUnixNano(source.startedAt);
+  const timeUnixNano = toUnixNano(now);
+
+  return {
+    resourceMetrics: [
+      {
+        resource: {
+          attributes: attributes({
+            'service.name': options.serviceName ?? 'tinyland',
+            ...options.resourceAttributes,
+          }),
+        },
+        scopeMetrics: [
+          {
+            scope: { name: SCOPE_NAME, version: SCOPE_VERSION },
+            metrics: source.registry
+              .snapshot()
+              .map((metric) =>
+                registryMetricToOtlp(metric, startTimeUnixNano, timeUnixNano),
+              ),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+export class OtlpExporter {
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private inFlight: Promise<boolean> | null = null;
+
+  constructor(
+    private readonly source: OtlpMetricsSource,
+    private readonly options: OtlpExporterConfig,
+  ) {}
+
+
+  start(): void {
+    if (this.interval) return;
+    this.interval = setInterval(() => {
+      this.export();
+    }, this.options.intervalMs ?? 60000);
+    this.interval.unref();
+  }
+
+
+  async export(): Promise<boolean> {
+    if (this.inFlight) return this.inFlight;
+    this.inFlight = this.send(buildOtlpPayload(this.source, this.options));
+    try {
+      return await this.inFlight;
+    } finally {
+      this.inFlight = null;
+    }
+  }
+
+
+  async destroy(): Promise<void> {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    if (this.inFlight) {
+      await this.inFlight;
+    }
+    await this.export();
+  }
+
+  private async send(payload: OtlpExportMetricsServiceRequest): Promise<boolean> {
+    const logger = getMetricsConfig().getLogger();
+    const maxRetries = this.options.maxRetries ?? 3;
+    const initialBackoffMs = this.options.initialBackoffMs ?? 1000;
+    const maxBackoffMs = this.options.maxBackoffMs ?? 30000;
+    const body = JSON.stringify(payload);
+
+    for (let attempt = 0; ; attempt++) {
+      let retryable = true;
+      let reason: string;
+      try {
+        const response = await fetch(this.options.endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...this.options.headers,
+          },
+          body,
+          signal: AbortSignal.timeout(this.options.timeoutMs ?? 10000),
+        });
+        if (response.ok) {
+          return true;
+        }
+        retryable = RETRYABLE_STATUS.has(response.status);
+        reason = `HTTP ${response.status}`;
+      } catch (error) {
+        reason = error instanceof Error ? error.message : String(error);
+      }
+
+      if (!retryable || attempt >= maxRetries) {
+        logger.error('[OtlpExporter] Failed to export metrics', {
+          endpoint: this.options.endpoint,
+          attempts: attempt + 1,
+          error: reason,
+        });
+        return false;
+      }
+
+      const backoff = Math.min(initialBackoffMs * 2 ** attempt, maxBackoffMs);
+      logger.warn('[OtlpExporter] Export failed, retrying', {
+        endpoint: this.options.endpoint,
+        attempt: attempt + 1,
+        backoffMs: backoff,
+        error: reason,
+      });
+      await new Promise<void>((resolve) => {
+        setTimeout(resolve, backoff).unref();
+      });
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import type { HistogramSnapshot } from './types.js';
+
+export type PrometheusMetricType = 'counter' | 'gauge' | 'histogram' | 'summary';
+
+export interface PrometheusSample {
+  suffix?: string;
+  labels?: Record<string, string>;
+  value: number;
+}
+
+
+export interface PrometheusMetricFamily {
+  name: string;
+  help: string;
+  type: PrometheusMetricType;
+  samples: PrometheusSample[];
+}
+
+
+export interface PrometheusOptions {
+  namespace?: string;
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+
+export function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+
+export function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+
+export function formatSampleValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function formatLabels(labels?: Record<string, string>): string {
+  if (!labels) return '';
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabelValue(value)}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+
+export function formatPrometheus(families: PrometheusMetricFamily[]): string {
+  const lines: string[] = [];
+  for (const family of families) {
+    lines.push(`# HELP ${family.name} ${escapeHelp(family.help)}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    for (const sample of family.samples) {
+      lines.push(
+        `${family.name}${sample.suffix ?? ''}${formatLabels(sample.labels)} ${formatSampleValue(sample.value)}`,
+      );
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+
+export function histogramSamples(
+  snapshot: HistogramSnapshot,
+  labels: Record<string, string> = {},
+  divisor = 1,
+): PrometheusSample[] {
+  const samples: PrometheusSample[] = snapshot.buckets.map((bucket) => ({
+    suffix: '_bucket',
+    labels: { ...labels, le: formatSampleValue(bucket.le / divisor) },
+    value: bucket.count,
+  }));
+  samples.push(
+    {
+      suffix: '_bucket',
+      labels: { ...labels, le: '+Inf' },
+      value: snapshot.count,
+    },
+    { suffix: '_sum', labels, value: snapshot.sum / divisor },
+    { suffix: '_count', labels, value: snapshot.count },
+  );
+  return samples;
+}
+
+
+export function createPrometheusHandler(
+  collector: { toPrometheus(options?: PrometheusOptions): string },
+  options: PrometheusOptions = {},
+): (request: Request) => Response {
+  return (request: Request) => {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      return new Response('Method Not Allowed', {
+        status: 405,
+        headers: { Allow: 'GET, HEAD' },
+      });
+    }
+
+    const body = collector.toPrometheus(options);
+    return new Response(request.method === 'HEAD' ? null : body, {
+      status: 200,
+      headers: {
+        'Content-Type': PROMETHEUS_CONTENT_TYPE,
+        'Cache-Control': 'no-store',
+      },
+    });
+  };
+}
@@ -0,0 +1,598 @@
+import { getMetricsConfig } from './config.js';
+import { DEFAULT_DURATION_BUCKETS_MS, DurationHistogram } from './histogram.js';
+import { histogramSamples } from './prometheus.js';
+import type { PrometheusMetricFamily, PrometheusSample } from './prometheus.js';
+import type {
+  MetricLabels,
+  MetricSeriesSnapshot,
+  MetricSnapshot,
+  MetricType,
+  SerializedMetric,
+  SerializedSummary,
+  SummarySnapshot,
+} from './types.js';
+
+const METRIC_NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+const OVERFLOW_LABEL_VALUE = '__overflow__';
+
+export interface MetricOptions<M> {
+  help?: string;
+  labels?: string[];
+  unit?: string;
+  maxSeries?: number;
+  persist?: boolean;
+  collect?: (metric: M) => void;
+}
+
+
+export interface HistogramOptions extends MetricOptions<Histogram> {
+  buckets?: number[];
+}
+
+
+export interface SummaryOptions extends MetricOptions<Summary> {
+  quantiles?: number[];
+  maxSamples?: number;
+}
+
+interface Series<S> {
+  labels: MetricLabels;
+  state: S;
+}
+
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((k) => [k, labels[k]]));
+}
+
+abstract class Metric<S, M> {
+  readonly name: string;
+  readonly help: string;
+  readonly unit?: string;
+  readonly labelNames: string[];
+  readonly persist: boolean;
+  abstract readonly type: MetricType;
+
+  protected series = new Map<string, Series<S>>();
+  private readonly maxSeries: number;
+  private readonly collectHook?: (metric: M) => void;
+  private overflowWarned = false;
+
+  constructor(name: string, options: MetricOptions<M>, reservedLabels: string[] = []) {
+    this.name = name;
+    this.help = options.help ?? name;
+    this.unit = options.unit;
+    this.labelNames = options.labels ?? [];
+    this.persist = options.persist ?? true;
+    this.maxSeries = options.maxSeries ?? getMetricsConfig().maxSeriesPerMetric;
+    this.collectHook = options.collect;
+
+    for (const label of this.labelNames) {
+      if (!LABEL_NAME_PATTERN.test(label) || label.startsWith('__')) {
+        throw new Error(`[MetricsRegistry] Invalid label name "${label}" on ${name}`);
+      }
+      if (reservedLabels.includes(label)) {
+        throw new Error(`[MetricsRegistry] Label "${label}" is reserved on ${name}`);
+      }
+    }
+  }
+
+  protected initDefaultSeries(): void {
+    if (this.labelNames.length === 0) {
+      this.seriesFor();
+    }
+  }
+
+  protected abstract createState(): S;
+
+  protected abstract snapshotState(state: S): Omit<MetricSeriesSnapshot, 'labels'>;
+
+  protected seriesFor(labels: MetricLabels = {}): S {
+    const keys = Object.keys(labels);
+    if (
+      keys.length !== this.labelNames.length ||
+      !this.labelNames.every((name) => name in labels)
+    ) {
+      throw new Error(
+        `[MetricsRegistry] ${this.name} expects labels [${this.labelNames.join(', ')}], got [${keys.join(', ')}]`,
+      );
+    }
+
+    const key = seriesKey(labels);
+    let series = this.series.get(key);
+    if (series) return series.state;
+
+    if (this.series.size >= this.maxSeries) {
+      return this.overflowSeries();
+    }
+
+    series = { labels: { ...labels }, state: this.createState() };
+    this.series.set(key, series);
+    return series.state;
+  }
+
+  private overflowSeries(): S {
+    const labels = Object.fromEntries(
+      this.labelNames.map((name) => [name, OVERFLOW_LABEL_VALUE]),
+    );
+    const key = seriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, state: this.createState() };
+      this.series.set(key, series);
+    }
+    if (!this.overflowWarned) {
+      this.overflowWarned = true;
+      getMetricsConfig()
+        .getLogger()
+        .warn(`[MetricsRegistry] ${this.name} exceeded ${this.maxSeries} series`, {
+          metric: this.name,
+        });
+    }
+    return series.state;
+  }
+
+  reset(): void {
+    this.series.clear();
+    this.initDefaultSeries();
+  }
+
+  collect(): void {
+    this.collectHook?.(this as unknown as M);
+  }
+
+  snapshot(): MetricSnapshot {
+    this.collect();
+    return {
+      name: this.name,
+      help: this.help,
+      type: this.type,
+      ...(this.unit ? { unit: this.unit } : {}),
+      series: Array.from(this.series.values()).map(({ labels, state }) => ({
+        labels: { ...labels },
+        ...this.snapshotState(state),
+      })),
+    };
+  }
+}
+
+interface ValueState {
+  value: number;
+  written: boolean;
+}
+
+class ValueMetric<M> extends Metric<ValueState, M> {
+  readonly type: 'counter' | 'gauge';
+
+  constructor(type: 'counter' | 'gauge', name: string, options: MetricOptions<M>) {
+    super(name, options);
+    this.type = type;
+    this.initDefaultSeries();
+  }
+
+  protected createState(): ValueState {
+    return { value: 0, written: false };
+  }
+
+  protected write(labels: MetricLabels | undefined, update: (value: number) => number): void {
+    const state = this.seriesFor(labels);
+    state.value = update(state.value);
+    state.written = true;
+  }
+
+  protected snapshotState(state: ValueState): { value: number } {
+    return { value: state.value };
+  }
+
+  get(labels?: MetricLabels): number {
+    return this.series.get(seriesKey(labels ?? {}))?.state.value ?? 0;
+  }
+
+  serialize(): SerializedMetric {
+    return {
+      name: this.name,
+      type: this.type,
+      series: Array.from(this.series.values()).map(({ labels, state }) => ({
+        labels,
+        value: state.value,
+      })),
+    };
+  }
+
+  restore(data: SerializedMetric): void {
+    for (const series of data.series) {
+      if (typeof series.value !== 'number') continue;
+      const state = this.seriesFor(series.labels);
+      if (this.type === 'counter') {
+        state.value += series.value;
+      } else if (!state.written) {
+        state.value = series.value;
+      }
+    }
+  }
+}
+
+export class Counter extends ValueMetric<Counter> {
+  constructor(name: string, options: MetricOptions<Counter> = {}) {
+    super('counter', name, options);
+  }
+
+  inc(value?: number): void;
+  inc(labels: MetricLabels, value?: number): void;
+  inc(labelsOrValue?: MetricLabels | number, value = 1): void {
+    const labels = typeof labelsOrValue === 'object' ? labelsOrValue : undefined;
+    const amount = typeof labelsOrValue === 'number' ? labelsOrValue : value;
+    if (amount < 0) {
+      throw new Error(`[MetricsRegistry] Counter ${this.name} cannot decrease`);
+    }
+    this.write(labels, (current) => current + amount);
+  }
+}
+
+export class Gauge extends ValueMetric<Gauge> {
+  constructor(name: string, options: MetricOptions<Gauge> = {}) {
+    super('gauge', name, options);
+  }
+
+  set(value: number): void;
+  set(labels: MetricLabels, value: number): void;
+  set(labelsOrValue: MetricLabels | number, value?: number): void {
+    if (typeof labelsOrValue === 'number') {
+      this.write(undefined, () => labelsOrValue);
+    } else {
+      this.write(labelsOrValue, () => value ?? 0);
+    }
+  }
+
+  inc(value?: number): void;
+  inc(labels: MetricLabels, value?: number): void;
+  inc(labelsOrValue?: MetricLabels | number, value = 1): void {
+    const labels = typeof labelsOrValue === 'object' ? labelsOrValue : undefined;
+    const amount = typeof labelsOrValue === 'number' ? labelsOrValue : value;
+    this.write(labels, (current) => current + amount);
+  }
+
+  dec(value?: number): void;
+  dec(labels: MetricLabels, value?: number): void;
+  dec(labelsOrValue?: MetricLabels | number, value = 1): void {
+    const labels = typeof labelsOrValue === 'object' ? labelsOrValue : undefined;
+    const amount = typeof labelsOrValue === 'number' ? labelsOrValue : value;
+    this.write(labels, (current) => current - amount);
+  }
+}
+
+export class Histogram extends Metric<DurationHistogram, Histogram> {
+  readonly type = 'histogram';
+  private readonly buckets: number[];
+
+  constructor(name: string, options: HistogramOptions = {}) {
+    super(name, options, ['le']);
+    this.buckets = options.buckets ?? DEFAULT_DURATION_BUCKETS_MS;
+    this.initDefaultSeries();
+  }
+
+  protected createState(): DurationHistogram {
+    return new DurationHistogram(this.buckets);
+  }
+
+  protected snapshotState(state: DurationHistogram): Pick<MetricSeriesSnapshot, 'histogram'> {
+    return { histogram: state.snapshot() };
+  }
+
+  observe(value: number): void;
+  observe(labels: MetricLabels, value: number): void;
+  observe(labelsOrValue: MetricLabels | number, value?: number): void {
+    if (typeof labelsOrValue === 'number') {
+      this.seriesFor().observe(labelsOrValue);
+    } else {
+      this.seriesFor(labelsOrValue).observe(value ?? 0);
+    }
+  }
+
+
+  merged(): DurationHistogram {
+    const total = new DurationHistogram(this.buckets);
+    for (const { state } of this.series.values()) {
+      total.merge(state);
+    }
+    return total;
+  }
+
+  serialize(): SerializedMetric {
+    return {
+      name: this.name,
+      type: this.type,
+      series: Array.from(this.series.values()).map(({ labels, state }) => ({
+        labels,
+        histogram: state.toJSON(),
+      })),
+    };
+  }
+
+  restore(data: SerializedMetric): void {
+    for (const series of data.series) {
+      if (series.histogram) {
+        this.seriesFor(series.labels).merge(
+          DurationHistogram.fromJSON(series.histogram),
+        );
+      }
+    }
+  }
+}
+
+interface SummaryState {
+  samples: number[];
+  count: number;
+  sum: number;
+}
+
+export class Summary extends Metric<SummaryState, Summary> {
+  readonly type = 'summary';
+  private readonly quantiles: number[];
+  private readonly maxSamples: number;
+
+  constructor(name: string, options: SummaryOptions = {}) {
+    super(name, options, ['quantile']);
+    this.quantiles = options.quantiles ?? [0.5, 0.9, 0.99];
+    this.maxSamples = options.maxSamples ?? 1024;
+    this.initDefaultSeries();
+  }
+
+  protected createState(): SummaryState {
+    return { samples: [], count: 0, sum: 0 };
+  }
+
+  protected snapshotState(state: SummaryState): Pick<MetricSeriesSnapshot, 'summary'> {
+    const sorted = [...state.samples].sort((a, b) => a - b);
+    const summary: SummarySnapshot = {
+      count: state.count,
+      sum: state.sum,
+      quantiles: this.quantiles.map((quantile) => ({
+        quantile,
+        value:
+          sorted.length > 0
+            ? sorted[Math.min(sorted.length - 1, Math.floor(quantile * sorted.length))]
+            : 0,
+      })),
+    };
+    return { summary };
+  }
+
+  observe(value: number): void;
+  observe(labels: MetricLabels, value: number): void;
+  observe(labelsOrValue: MetricLabels | number, value?: number): void {
+    const state =
+      typeof labelsOrValue === 'number'
+        ? this.seriesFor()
+        : this.seriesFor(labelsOrValue);
+    const observed = typeof labelsOrValue === 'number' ? labelsOrValue : (value ?? 0);
+    state.samples.push(observed);
+    if (state.samples.length > this.maxSamples) {
+      state.samples.shift();
+    }
+    state.count++;
+    state.sum += observed;
+  }
+
+  serialize(): SerializedMetric {
+    return {
+      name: this.name,
+      type: this.type,
+      series: Array.from(this.series.values()).map(({ labels, state }) => ({
+        labels,
+        summary: {
+          samples: [...state.samples],
+          count: state.count,
+          sum: state.sum,
+        },
+      })),
+    };
+  }
+
+  restore(data: SerializedMetric): void {
+    for (const series of data.series) {
+      if (!series.summary) continue;
+      const state = this.seriesFor(series.labels);
+      state.samples = mergeSummarySamples(
+        series.summary.samples,
+        state.samples,
+        this.maxSamples,
+      );
+      state.count += series.summary.count;
+      state.sum += series.summary.sum;
+    }
+  }
+}
+
+function mergeSummarySamples(
+  older: number[],
+  newer: number[],
+  maxSamples: number,
+): number[] {
+  return [...older, ...newer].slice(-maxSamples);
+}
+
+function mergeSummaries(
+  target: SerializedSummary,
+  source: SerializedSummary,
+): SerializedSummary {
+  return {
+    samples: [...target.samples, ...source.samples],
+    count: target.count + source.count,
+    sum: target.sum + source.sum,
+  };
+}
+
+export type AnyMetric = Counter | Gauge | Histogram | Summary;
+
+
+export function mergeSerializedMetrics(
+  target: SerializedMetric,
+  source: SerializedMetric,
+): SerializedMetric {
+  if (target.name !== source.name || target.type !== source.type) {
+    throw new Error(
+      `[MetricsRegistry] Cannot merge ${source.type} ${source.name} into ${target.type} ${target.name}`,
+    );
+  }
+  const series = new Map(
+    target.series.map((entry) => [seriesKey(entry.labels), { ...entry }]),
+  );
+  for (const entry of source.series) {
+    const key = seriesKey(entry.labels);
+    const existing = series.get(key);
+    if (!existing) {
+      series.set(key, { ...entry });
+    } else if (existing.histogram && entry.histogram) {
+      const merged = DurationHistogram.fromJSON(existing.histogram);
+      merged.merge(DurationHistogram.fromJSON(entry.histogram));
+      existing.histogram = merged.toJSON();
+    } else if (existing.summary && entry.summary) {
+      existing.summary = mergeSummaries(existing.summary, entry.summary);
+    } else {
+      existing.value = (existing.value ?? 0) + (entry.value ?? 0);
+    }
+  }
+  return { ...target, series: Array.from(series.values()) };
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, AnyMetric>();
+  private pendingRestore = new Map<string, SerializedMetric>();
+
+  counter(name: string, options: MetricOptions<Counter> = {}): Counter {
+    return this.register(name, 'counter', () => new Counter(name, options));
+  }
+
+  gauge(name: string, options: MetricOptions<Gauge> = {}): Gauge {
+    return this.register(name, 'gauge', () => new Gauge(name, options));
+  }
+
+  histogram(name: string, options: HistogramOptions = {}): Histogram {
+    return this.register(name, 'histogram', () => new Histogram(name, options));
+  }
+
+  summary(name: string, options: SummaryOptions = {}): Summary {
+    return this.register(name, 'summary', () => new Summary(name, options));
+  }
+
+  get(name: string): AnyMetric | undefined {
+    return this.metrics.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.metrics.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.metrics.keys());
+  }
+
+  snapshot(filter?: (metric: AnyMetric) => boolean): MetricSnapshot[] {
+    return Array.from(this.metrics.values())
+      .filter((metric) => !filter || filter(metric))
+      .map((metric) => metric.snapshot());
+  }
+
+
+  serialize(): SerializedMetric[] {
+    const serialized: SerializedMetric[] = [];
+    for (const metric of this.metrics.values()) {
+      if (!metric.persist) continue;
+      serialized.push(metric.serialize());
+    }
+    for (const pending of this.pendingRestore.values()) {
+      serialized.push(pending);
+    }
+    return serialized;
+  }
+
+
+  restore(data: SerializedMetric[]): void {
+    for (const entry of data) {
+      const metric = this.metrics.get(entry.name);
+      if (!metric) {
+        const pending = this.pendingRestore.get(entry.name);
+        this.pendingRestore.set(
+          entry.name,
+          pending && pending.type === entry.type
+            ? mergeSerializedMetrics(pending, entry)
+            : entry,
+        );
+      } else if (metric.persist && metric.type === entry.type) {
+        this.restoreInto(metric, entry);
+      }
+    }
+  }
+
+  toPrometheusFamilies(namespace?: string): PrometheusMetricFamily[] {
+    return this.snapshot().map((metric) => {
+      const name = namespace ? `${namespace}_${metric.name}` : metric.name;
+      const samples: PrometheusSample[] = metric.series.flatMap((series) => {
+        if (series.histogram) {
+          return histogramSamples(series.histogram, series.labels);
+        }
+        if (series.summary) {
+          return [
+            ...series.summary.quantiles.map(({ quantile, value }) => ({
+              labels: { ...series.labels, quantile: String(quantile) },
+              value,
+            })),
+            { suffix: '_sum', labels: series.labels, value: series.summary.sum },
+            { suffix: '_count', labels: series.labels, value: series.summary.count },
+          ];
+        }
+        return [{ labels: series.labels, value: series.value ?? 0 }];
+      });
+      return { name, help: metric.help, type: metric.type, samples };
+    });
+  }
+
+  clear(): void {
+    this.metrics.clear();
+    this.pendingRestore.clear();
+  }
+
+  private register<M extends AnyMetric>(
+    name: string,
+    type: MetricType,
+    create: () => M,
+  ): M {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(
+          `[MetricsRegistry] ${name} is already registered as a ${existing.type}`,
+        );
+      }
+      return existing as M;
+    }
+    if (!METRIC_NAME_PATTERN.test(name)) {
+      throw new Error(`[MetricsRegistry] Invalid metric name "${name}"`);
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+
+    const pending = this.pendingRestore.get(name);
+    if (pending) {
+      this.pendingRestore.delete(name);
+      if (metric.persist && pending.type === type) {
+        this.restoreInto(metric, pending);
+      }
+    }
+    return metric;
+  }
+
+  private restoreInto(metric: AnyMetric, data: SerializedMetric): void {
+    try {
+      metric.restore(data);
+    } catch (error) {
+      getMetricsConfig()
+        .getLogger()
+        .warn(`[MetricsRegistry] Could not restore ${metric.name}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+    }
+  }
+}
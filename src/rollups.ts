@@ -0,0 +1,402 @@
+import type { RollupRetentionConfig } from './config.js';
+import {
+  mergeVisitors,
+  restoreVisitors,
+  serializeVisitors,
+} from './hyperloglog.js';
+import type {
+  MetricsWindow,
+  RollupResolution,
+  SerializedRollupBucket,
+  SerializedRollups,
+  TimeSeriesMetric,
+  TimeSeriesPoint,
+  TopPage,
+  TrafficSource,
+  VisitorSet,
+  WindowedMetricsData,
+} from './types.js';
+
+export const ROLLUP_RESOLUTION_MS: Record<RollupResolution, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+export const METRICS_WINDOW_MS: Record<MetricsWindow, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+const RESOLUTIONS: RollupResolution[] = ['minute', 'hour', 'day'];
+const ACTIVE_SESSION_WINDOW_MS = 30 * 60 * 1000;
+const MAX_SERIES_POINTS = 10000;
+
+export interface RollupBucket {
+  start: number;
+  pageViews: number;
+  requests: number;
+  errors: number;
+  visitors: VisitorSet;
+  pages: Map<string, { views: number; visitors: VisitorSet }>;
+  pathRequests: Map<string, number>;
+  pathErrors: Map<string, number>;
+  sources: Map<string, number>;
+}
+
+function createBucket(start: number, visitors: VisitorSet): RollupBucket {
+  return {
+    start,
+    pageViews: 0,
+    requests: 0,
+    errors: 0,
+    visitors,
+    pages: new Map(),
+    pathRequests: new Map(),
+    pathErrors: new Map(),
+    sources: new Map(),
+  };
+}
+
+export class RollupStore {
+  private buckets: Record<RollupResolution, Map<number, RollupBucket>> = {
+    minute: new Map(),
+    hour: new Map(),
+    day: new Map(),
+  };
+  private latest = 0;
+
+  constructor(
+    private readonly retention: Required<RollupRetentionConfig>,
+    private readonly createVisitors: () => VisitorSet = () => new Set<string>(),
+  ) {}
+
+  recordPageView(
+    sessionId: string,
+    path: string,
+    at: number = Date.now(),
+  ): void {
+    for (const bucket of this.bucketsAt(at)) {
+      bucket.pageViews++;
+      bucket.visitors.add(sessionId);
+      let page = bucket.pages.get(path);
+      if (!page) {
+        page = { views: 0, visitors: this.createVisitors() };
+        bucket.pages.set(path, page);
+      }
+      page.views++;
+      page.visitors.add(sessionId);
+    }
+  }
+
+  recordSession(source: string, at: number = Date.now()): void {
+    for (const bucket of this.bucketsAt(at)) {
+      bucket.sources.set(source, (bucket.sources.get(source) ?? 0) + 1);
+    }
+  }
+
+  recordRequest(path: string, at: number = Date.now()): void {
+    for (const bucket of this.bucketsAt(at)) {
+      bucket.requests++;
+      bucket.pathRequests.set(path, (bucket.pathRequests.get(path) ?? 0) + 1);
+    }
+  }
+
+  recordError(at: number = Date.now(), path?: string): void {
+    for (const bucket of this.bucketsAt(at)) {
+      bucket.errors++;
+      if (path !== undefined) {
+        bucket.pathErrors.set(path, (bucket.pathErrors.get(path) ?? 0) + 1);
+      }
+    }
+  }
+
+
+  resolutionFor(from: number): RollupResolution {
+    for (const resolution of RESOLUTIONS) {
+      const size = ROLLUP_RESOLUTION_MS[resolution];
+      const oldestKept =
+        Math.floor(this.latest / size) * size -
+        (this.retention[resolution] - 1) * size;
+      if (from >= oldestKept) return resolution;
+    }
+    return 'day';
+  }
+
+
+  bucketsBetween(
+    resolution: RollupResolution,
+    from: number,
+    to: number,
+  ): RollupBucket[] {
+    const size = ROLLUP_RESOLUTION_MS[resolution];
+    const firstStart = Math.floor(from / size) * size;
+    return Array.from(this.buckets[resolution].values())
+      .filter((bucket) => bucket.start >= firstStart && bucket.start < to)
+      .sort((a, b) => a.start - b.start);
+  }
+
+  aggregate(
+    from: number,
+    to: number,
+    resolution: RollupResolution = this.resolutionFor(from),
+  ): WindowedMetricsData {
+    const buckets = this.bucketsBetween(resolution, from, to);
+
+    let pageViews = 0;
+    let requests = 0;
+    let errors = 0;
+    let visitors = this.createVisitors();
+    const pages = new Map<string, { views: number; visitors: VisitorSet }>();
+    const sources = new Map<string, number>();
+
+    for (const bucket of buckets) {
+      pageViews += bucket.pageViews;
+      requests += bucket.requests;
+      errors += bucket.errors;
+      visitors = mergeVisitors(visitors, bucket.visitors);
+      for (const [path, page] of bucket.pages) {
+        let total = pages.get(path);
+        if (!total) {
+          total = { views: 0, visitors: this.createVisitors() };
+          pages.set(path, total);
+        }
+        total.views += page.views;
+        total.visitors = mergeVisitors(total.visitors, page.visitors);
+      }
+      for (const [source, visits] of bucket.sources) {
+        sources.set(source, (sources.get(source) ?? 0) + visits);
+      }
+    }
+
+    const topPages: TopPage[] = Array.from(pages.entries())
+      .map(([path, page]) => ({
+        path,
+        views: page.views,
+        uniqueVisitors: page.visitors.size,
+        percentage: pageViews > 0 ? (page.views / pageViews) * 100 : 0,
+      }))
+      .sort((a, b) => b.views - a.views)
+      .slice(0, 5);
+
+    const totalSources = Array.from(sources.values()).reduce((a, b) => a + b, 0);
+    const trafficSources: TrafficSource[] = Array.from(sources.entries())
+      .map(([source, visits]) => ({
+        source,
+        visits,
+        percentage: totalSources > 0 ? (visits / totalSources) * 100 : 0,
+      }))
+      .sort((a, b) => b.visits - a.visits);
+
+    return {
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      resolution,
+      pageViews,
+      uniqueVisitors: visitors.size,
+      requests,
+      errors,
+      topPages,
+      trafficSources,
+    };
+  }
+
+  series(
+    metric: TimeSeriesMetric,
+    from: number,
+    to: number,
+    step?: number,
+    path?: string,
+  ): TimeSeriesPoint[] {
+    const resolution = this.resolutionFor(from);
+    const size = ROLLUP_RESOLUTION_MS[resolution];
+    const stepMs = Math.max(size, Math.ceil((step ?? size) / size) * size);
+    const start = Math.floor(from / size) * size;
+    if ((to - start) / stepMs > MAX_SERIES_POINTS) {
+      throw new Error(
+        `[RollupStore] Time series would exceed ${MAX_SERIES_POINTS} points`,
+      );
+    }
+
+    const buckets = this.bucketsBetween(
+      resolution,
+      start - ACTIVE_SESSION_WINDOW_MS,
+      to,
+    );
+    const visitorsOf = (bucket: RollupBucket): VisitorSet | undefined =>
+      path === undefined ? bucket.visitors : bucket.pages.get(path)?.visitors;
+
+    const points: TimeSeriesPoint[] = [];
+    for (let t = start; t < to; t += stepMs) {
+      const end = t + stepMs;
+      const inStep = buckets.filter((b) => b.start >= t && b.start < end);
+      let value = 0;
+
+      switch (metric) {
+        case 'pageViews':
+          for (const bucket of inStep) {
+            value +=
+              path === undefined
+                ? bucket.pageViews
+                : (bucket.pages.get(path)?.views ?? 0);
+          }
+          break;
+        case 'requests':
+          for (const bucket of inStep) {
+            value +=
+              path === undefined
+                ? bucket.requests
+                : (bucket.pathRequests.get(path) ?? 0);
+          }
+          break;
+        case 'errors':
+          for (const bucket of inStep) {
+            value +=
+              path === undefined
+                ? bucket.errors
+                : (bucket.pathErrors.get(path) ?? 0);
+          }
+          break;
+        case 'uniqueVisitors': {
+          let visitors = this.createVisitors();
+          for (const bucket of inStep) {
+            const bucketVisitors = visitorsOf(bucket);
+            if (bucketVisitors) {
+              visitors = mergeVisitors(visitors, bucketVisitors);
+            }
+          }
+          value = visitors.size;
+          break;
+        }
+        case 'activeSessions': {
+          let visitors = this.createVisitors();
+          for (const bucket of buckets) {
+            const bucketVisitors = visitorsOf(bucket);
+            if (
+              bucketVisitors &&
+              bucket.start < end &&
+              bucket.start + size > end - ACTIVE_SESSION_WINDOW_MS
+            ) {
+              visitors = mergeVisitors(visitors, bucketVisitors);
+            }
+          }
+          value = visitors.size;
+          break;
+        }
+      }
+
+      points.push([t, value]);
+    }
+    return points;
+  }
+
+  serialize(): SerializedRollups {
+    const serializeBucket = (bucket: RollupBucket): SerializedRollupBucket => ({
+      start: bucket.start,
+      pageViews: bucket.pageViews,
+      requests: bucket.requests,
+      errors: bucket.errors,
+      visitors: serializeVisitors(bucket.visitors),
+      pages: Array.from(bucket.pages.entries()).map(([path, page]) => ({
+        path,
+        views: page.views,
+        visitors: serializeVisitors(page.visitors),
+      })),
+      pathRequests: Array.from(bucket.pathRequests, ([path, requests]) => ({
+        path,
+        requests,
+      })),
+      pathErrors: Array.from(bucket.pathErrors, ([path, errors]) => ({
+        path,
+        errors,
+      })),
+      sources: Array.from(bucket.sources.entries()).map(([source, visits]) => ({
+        source,
+        visits,
+      })),
+    });
+    return {
+      minute: Array.from(this.buckets.minute.values()).map(serializeBucket),
+      hour: Array.from(this.buckets.hour.values()).map(serializeBucket),
+      day: Array.from(this.buckets.day.values()).map(serializeBucket),
+    };
+  }
+
+  restore(data: SerializedRollups, now: number = Date.now()): void {
+    this.latest = Math.max(this.latest, now);
+    for (const resolution of RESOLUTIONS) {
+      for (const entry of data[resolution] ?? []) {
+        const bucket = this.bucketFor(resolution, entry.start);
+        bucket.pageViews += entry.pageViews;
+        bucket.requests += entry.requests;
+        bucket.errors += entry.errors;
+        bucket.visitors = mergeVisitors(
+          bucket.visitors,
+          restoreVisitors(entry.visitors, this.createVisitors),
+        );
+        for (const page of entry.pages) {
+          let existing = bucket.pages.get(page.path);
+          if (!existing) {
+            existing = { views: 0, visitors: this.createVisitors() };
+            bucket.pages.set(page.path, existing);
+          }
+          existing.views += page.views;
+          existing.visitors = mergeVisitors(
+            existing.visitors,
+            restoreVisitors(page.visitors, this.createVisitors),
+          );
+        }
+        for (const { path, requests } of entry.pathRequests ?? []) {
+          bucket.pathRequests.set(
+            path,
+            (bucket.pathRequests.get(path) ?? 0) + requests,
+          );
+        }
+        for (const { path, errors } of entry.pathErrors ?? []) {
+          bucket.pathErrors.set(
+            path,
+            (bucket.pathErrors.get(path) ?? 0) + errors,
+          );
+        }
+        for (const { source, visits } of entry.sources) {
+          bucket.sources.set(source, (bucket.sources.get(source) ?? 0) + visits);
+        }
+      }
+      this.prune(resolution, now);
+    }
+  }
+
+  private bucketsAt(at: number): RollupBucket[] {
+    this.latest = Math.max(this.latest, at);
+    return RESOLUTIONS.map((resolution) => {
+      const size = ROLLUP_RESOLUTION_MS[resolution];
+      const start = Math.floor(at / size) * size;
+      if (!this.buckets[resolution].has(start)) {
+        this.prune(resolution, at);
+      }
+      return this.bucketFor(resolution, start);
+    });
+  }
+
+  private bucketFor(resolution: RollupResolution, start: number): RollupBucket {
+    const buckets = this.buckets[resolution];
+    let bucket = buckets.get(start);
+    if (!bucket) {
+      bucket = createBucket(start, this.createVisitors());
+      buckets.set(start, bucket);
+    }
+    return bucket;
+  }
+
+  private prune(resolution: RollupResolution, now: number): void {
+    const size = ROLLUP_RESOLUTION_MS[resolution];
+    const cutoff =
+      Math.floor(now / size) * size - (this.retention[resolution] - 1) * size;
+    for (const start of this.buckets[resolution].keys()) {
+      if (start < cutoff) {
+        this.buckets[resolution].delete(start);
+      }
+    }
+  }
+}
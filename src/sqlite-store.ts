@@ -0,0 +1,269 @@
+import type { DatabaseSync } from 'node:sqlite';
+import { getMetricsConfig } from './config.js';
+import type { RollupRetentionConfig } from './config.js';
+import { ROLLUP_RESOLUTION_MS } from './rollups.js';
+import type { MetricsStore } from './store.js';
+import type {
+  PersistedMetrics,
+  RollupResolution,
+  SerializedRollupBucket,
+  SerializedRollups,
+} from './types.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS pages (
+    path TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS sessions (
+    session_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS registry (
+    name TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS rollups (
+    resolution TEXT NOT NULL,
+    start INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (resolution, start)
+  );
+  CREATE TABLE IF NOT EXISTS error_groups (
+    fingerprint TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+type Table = 'pages' | 'sessions' | 'registry' | 'error_groups' | 'rollups';
+
+type Rows = Map<string, string>;
+
+const TABLES: Record<
+  Table,
+  { select: string; upsert: string; remove: string }
+> = {
+  pages: {
+    select: 'SELECT path AS key, data FROM pages',
+    upsert:
+      'INSERT INTO pages (path, data) VALUES (?, ?) ' +
+      'ON CONFLICT(path) DO UPDATE SET data = excluded.data',
+    remove: 'DELETE FROM pages WHERE path = ?',
+  },
+  sessions: {
+    select: 'SELECT session_id AS key, data FROM sessions',
+    upsert:
+      'INSERT INTO sessions (session_id, data) VALUES (?, ?) ' +
+      'ON CONFLICT(session_id) DO UPDATE SET data = excluded.data',
+    remove: 'DELETE FROM sessions WHERE session_id = ?',
+  },
+  registry: {
+    select: 'SELECT name AS key, data FROM registry',
+    upsert:
+      'INSERT INTO registry (name, data) VALUES (?, ?) ' +
+      'ON CONFLICT(name) DO UPDATE SET data = excluded.data',
+    remove: 'DELETE FROM registry WHERE name = ?',
+  },
+  error_groups: {
+    select: 'SELECT fingerprint AS key, data FROM error_groups',
+    upsert:
+      'INSERT INTO error_groups (fingerprint, data) VALUES (?, ?) ' +
+      'ON CONFLICT(fingerprint) DO UPDATE SET data = excluded.data',
+    remove: 'DELETE FROM error_groups WHERE fingerprint = ?',
+  },
+  rollups: {
+    select:
+      "SELECT resolution || ':' || start AS key, data FROM rollups " +
+      'ORDER BY resolution, start',
+    upsert:
+      'INSERT INTO rollups (resolution, start, data) VALUES (?, ?, ?) ' +
+      'ON CONFLICT(resolution, start) DO UPDATE SET data = excluded.data',
+    remove: 'DELETE FROM rollups WHERE resolution = ? AND start = ?',
+  },
+};
+
+const RESOLUTIONS: RollupResolution[] = ['minute', 'hour', 'day'];
+
+function rollupKey(resolution: RollupResolution, start: number): string {
+  return `${resolution}:${start}`;
+}
+
+function keyParams(table: Table, key: string): Array<string | number> {
+  if (table !== 'rollups') return [key];
+  const separator = key.indexOf(':');
+  return [key.slice(0, separator), Number(key.slice(separator + 1))];
+}
+
+function toRows<T>(items: T[], keyOf: (item: T) => string): Rows {
+  return new Map(items.map((item) => [keyOf(item), JSON.stringify(item)]));
+}
+
+export class SqliteStore implements MetricsStore {
+  private db: Promise<DatabaseSync> | null = null;
+  private written: Map<Table, Rows> | null = null;
+
+  constructor(
+    private readonly filename: string,
+    private readonly retention: Required<RollupRetentionConfig> =
+      getMetricsConfig().rollupRetention,
+  ) {}
+
+  async load(): Promise<PersistedMetrics> {
+    const db = await this.open();
+    const written = this.readRows(db);
+    this.written = written;
+    const values = (table: Table) =>
+      Array.from(written.get(table)!.values(), (data) => JSON.parse(data));
+
+    const rollups: SerializedRollups = { minute: [], hour: [], day: [] };
+    for (const [key, data] of written.get('rollups')!) {
+      const [resolution] = keyParams('rollups', key) as [RollupResolution];
+      rollups[resolution]?.push(JSON.parse(data) as SerializedRollupBucket);
+    }
+
+    const journalSeq = (
+      db
+        .prepare("SELECT value FROM meta WHERE key = 'journalSeq'")
+        .all() as Array<{ value: string }>
+    )[0]?.value;
+
+    return {
+      pages: values('pages'),
+      sessions: values('sessions'),
+      registry: values('registry'),
+      rollups,
+      errorGroups: values('error_groups'),
+      ...(journalSeq !== undefined && { journalSeq: Number(journalSeq) }),
+    };
+  }
+
+  async save(data: PersistedMetrics): Promise<void> {
+    const db = await this.open();
+    const previous = this.written ?? this.readRows(db);
+    const next = new Map(previous);
+
+    db.exec('BEGIN');
+    try {
+      const sync = (table: Table, rows: Rows, removeMissing = true): void => {
+        const before = previous.get(table)!;
+        const upsert = db.prepare(TABLES[table].upsert);
+        const remove = db.prepare(TABLES[table].remove);
+        const after = removeMissing ? new Map<string, string>() : new Map(before);
+        for (const [key, json] of rows) {
+          if (before.get(key) !== json) {
+            upsert.run(...keyParams(table, key), json);
+          }
+          after.set(key, json);
+        }
+        if (removeMissing) {
+          for (const key of before.keys()) {
+            if (!rows.has(key)) remove.run(...keyParams(table, key));
+          }
+        }
+        next.set(table, after);
+      };
+
+      if (data.pages) sync('pages', toRows(data.pages, (page) => page.path));
+      if (data.sessions) {
+        sync('sessions', toRows(data.sessions, (session) => session.sessionId));
+      }
+      if (data.registry) {
+        sync('registry', toRows(data.registry, (metric) => metric.name));
+      }
+      if (data.errorGroups) {
+        sync(
+          'error_groups',
+          toRows(data.errorGroups, (group) => group.fingerprint),
+        );
+      }
+      if (data.rollups) {
+        const rollups = data.rollups;
+        const rows: Rows = new Map();
+        for (const resolution of RESOLUTIONS) {
+          for (const bucket of rollups[resolution]) {
+            rows.set(
+              rollupKey(resolution, bucket.start),
+              JSON.stringify(bucket),
+            );
+          }
+        }
+        sync('rollups', rows, false);
+        this.pruneRollups(db, rollups, next.get('rollups')!);
+      }
+
+      if (data.journalSeq !== undefined) {
+        db.prepare(
+          'INSERT INTO meta (key, value) VALUES (?, ?) ' +
+            'ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+        ).run('journalSeq', String(data.journalSeq));
+      }
+
+      db.exec('COMMIT');
+      this.written = next;
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    const db = this.db;
+    this.db = null;
+    this.written = null;
+    if (db) {
+      (await db).close();
+    }
+  }
+
+  private readRows(db: DatabaseSync): Map<Table, Rows> {
+    const tables = new Map<Table, Rows>();
+    for (const table of Object.keys(TABLES) as Table[]) {
+      const rows = db.prepare(TABLES[table].select).all() as Array<{
+        key: string;
+        data: string;
+      }>;
+      tables.set(table, new Map(rows.map((row) => [row.key, row.data])));
+    }
+    return tables;
+  }
+
+  private pruneRollups(
+    db: DatabaseSync,
+    rollups: SerializedRollups,
+    rows: Rows,
+  ): void {
+    const prune = db.prepare(
+      'DELETE FROM rollups WHERE resolution = ? AND start < ?',
+    );
+    for (const resolution of RESOLUTIONS) {
+      const starts = rollups[resolution].map((bucket) => bucket.start);
+      if (starts.length === 0) continue;
+      const size = ROLLUP_RESOLUTION_MS[resolution];
+      const oldestKept =
+        Math.floor(Math.max(...starts) / size) * size -
+        (this.retention[resolution] - 1) * size;
+      prune.run(resolution, oldestKept);
+      for (const key of rows.keys()) {
+        const [keyResolution, start] = keyParams('rollups', key);
+        if (keyResolution === resolution && (start as number) < oldestKept) {
+          rows.delete(key);
+        }
+      }
+    }
+  }
+
+  private open(): Promise<DatabaseSync> {
+    if (!this.db) {
+      this.db = import('node:sqlite').then(({ DatabaseSync }) => {
+        const db = new DatabaseSync(this.filename);
+        db.exec(SCHEMA);
+        return db;
+      });
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,146 @@
+export interface SseMessage {
+  id?: string;
+  event?: string;
+  data?: string;
+  retry?: number;
+  comment?: string;
+}
+
+const LINE_BREAK = /\r\n|\r|\n/;
+
+
+export function encodeSseMessage(message: SseMessage): string {
+  let frame = '';
+  if (message.comment !== undefined) {
+    for (const line of message.comment.split(LINE_BREAK)) {
+      frame += `: ${line}\n`;
+    }
+  }
+  if (message.event !== undefined) {
+    if (LINE_BREAK.test(message.event)) {
+      throw new Error('[SSE] Event names cannot contain line breaks');
+    }
+    frame += `event: ${message.event}\n`;
+  }
+  if (message.id !== undefined) {
+    if (LINE_BREAK.test(message.id) || message.id.includes('\0')) {
+      throw new Error('[SSE] Event ids cannot contain line breaks or NULL');
+    }
+    frame += `id: ${message.id}\n`;
+  }
+  if (message.retry !== undefined) {
+    if (!Number.isInteger(message.retry) || message.retry < 0) {
+      throw new Error('[SSE] Retry must be a non-negative integer');
+    }
+    frame += `retry: ${message.retry}\n`;
+  }
+  if (message.data !== undefined) {
+    for (const line of message.data.split(LINE_BREAK)) {
+      frame += `data: ${line}\n`;
+    }
+  }
+  return frame + '\n';
+}
+
+
+export class SseParser {
+  private buffer = '';
+  private started = false;
+  private pendingCarriageReturn = false;
+  private data: string[] = [];
+  private eventType = '';
+  private lastEventId = '';
+  private retry: number | undefined;
+  private hasFields = false;
+
+
+  push(chunk: string): SseMessage[] {
+    let text = chunk;
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+    if (this.pendingCarriageReturn && text.startsWith('\n')) {
+      text = text.slice(1);
+    }
+    this.pendingCarriageReturn = false;
+    this.buffer += text;
+
+    const messages: SseMessage[] = [];
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+      const line = this.buffer.slice(start, i);
+      if (char === '\r') {
+        if (i + 1 === this.buffer.length) {
+          this.pendingCarriageReturn = true;
+        } else if (this.buffer[i + 1] === '\n') {
+          i++;
+        }
+      }
+      start = i + 1;
+      const message = this.processLine(line);
+      if (message) messages.push(message);
+    }
+    this.buffer = this.buffer.slice(start);
+    return messages;
+  }
+
+  private processLine(line: string): SseMessage | undefined {
+    if (line === '') return this.dispatch();
+    if (line.startsWith(':')) return undefined;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = Number(value);
+        break;
+      default:
+        return undefined;
+    }
+    this.hasFields = true;
+    return undefined;
+  }
+
+  private dispatch(): SseMessage | undefined {
+    const hadFields = this.hasFields;
+    const data = this.data;
+    const event = this.eventType;
+    const retry = this.retry;
+    this.data = [];
+    this.eventType = '';
+    this.retry = undefined;
+    this.hasFields = false;
+
+    if (!hadFields) return undefined;
+    if (data.length === 0) {
+      return retry !== undefined ? { retry } : undefined;
+    }
+    return {
+      id: this.lastEventId,
+      event: event || 'message',
+      data: data.join('\n'),
+      ...(retry !== undefined && { retry }),
+    };
+  }
+}
+
+
+export function parseSse(text: string): SseMessage[] {
+  const parser = new SseParser();
+  return parser.push(text);
+}
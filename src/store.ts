@@ -0,0 +1,263 @@
+import { mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { getMetricsConfig } from './config.js';
+import type { ResolvedMetricsConfig } from './config.js';
+import { SqliteStore } from './sqlite-store.js';
+import type { PersistedMetrics } from './types.js';
+
+export interface MetricsStore {
+  load(): Promise<PersistedMetrics>;
+  save(data: PersistedMetrics): Promise<void>;
+  close?(): Promise<void>;
+}
+
+export type MetricsStoreKind = 'json' | 'memory' | 'sqlite';
+
+export const METRICS_SCHEMA_VERSION = 1;
+
+export interface PersistedMetricsEnvelope extends PersistedMetrics {
+  version: number;
+  writtenAt: string;
+}
+
+const ENVELOPE_FILE = 'metrics.json';
+
+const LEGACY_FILES = {
+  pages: 'page-metrics.json',
+  sessions: 'session-metrics.json',
+  registry: 'registry-metrics.json',
+  rollups: 'rollup-metrics.json',
+} as const;
+
+
+const MIGRATIONS: Record<
+  number,
+  (data: PersistedMetricsEnvelope) => PersistedMetricsEnvelope
+> = {
+  0: (data) => ({
+    ...data,
+    version: 1,
+    pages: Array.isArray(data.pages) ? data.pages : [],
+    sessions: Array.isArray(data.sessions) ? data.sessions : [],
+  }),
+};
+
+export function migrateEnvelope(
+  data: PersistedMetricsEnvelope,
+): PersistedMetricsEnvelope {
+  if (data.version > METRICS_SCHEMA_VERSION) {
+    throw new Error(
+      `[JsonFileStore] Metrics schema version ${data.version} is newer than supported version ${METRICS_SCHEMA_VERSION}`,
+    );
+  }
+  let migrated = data;
+  while (migrated.version < METRICS_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[migrated.version];
+    if (!migrate) {
+      throw new Error(
+        `[JsonFileStore] No migration from schema version ${migrated.version}`,
+      );
+    }
+    migrated = migrate(migrated);
+  }
+  return migrated;
+}
+
+function isEnvelope(value: unknown): value is PersistedMetricsEnvelope {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const envelope = value as Record<string, unknown>;
+  return (
+    typeof envelope.version === 'number' &&
+    Array.isArray(envelope.pages) &&
+    Array.isArray(envelope.sessions)
+  );
+}
+
+function isMissing(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as NodeJS.ErrnoException).code === 'ENOENT'
+  );
+}
+
+export async function writeFileAtomic(
+  target: string,
+  contents: string,
+): Promise<void> {
+  const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await writeFile(temp, contents, { flush: true });
+    await rename(temp, target);
+  } catch (error) {
+    await unlink(temp).catch(() => {});
+    throw error;
+  }
+}
+
+export class JsonFileStore implements MetricsStore {
+  private legacyFiles: string[] = [];
+
+  constructor(private readonly dataDir: string) {}
+
+  async load(): Promise<PersistedMetrics> {
+    const envelope = await this.readFile(ENVELOPE_FILE, isEnvelope);
+    if (envelope) {
+      const { version: _version, writtenAt: _writtenAt, ...data } =
+        migrateEnvelope(envelope);
+      return data;
+    }
+    if (envelope === null) {
+      return {};
+    }
+
+    this.legacyFiles = [];
+    const legacy: PersistedMetricsEnvelope = {
+      version: 0,
+      writtenAt: new Date(0).toISOString(),
+      pages: await this.readLegacyFile('pages', Array.isArray),
+      sessions: await this.readLegacyFile('sessions', Array.isArray),
+      registry: await this.readLegacyFile('registry', Array.isArray),
+      rollups: await this.readLegacyFile(
+        'rollups',
+        (v): v is PersistedMetrics['rollups'] => !!v && typeof v === 'object',
+      ),
+    };
+    if (this.legacyFiles.length === 0) {
+      return {};
+    }
+
+    getMetricsConfig()
+      .getLogger()
+      .info('[JsonFileStore] Migrating legacy metrics files', {
+        dataDir: this.dataDir,
+        fromVersion: 0,
+        toVersion: METRICS_SCHEMA_VERSION,
+      });
+    const { version: _version, writtenAt: _writtenAt, ...data } =
+      migrateEnvelope(legacy);
+    return data;
+  }
+
+  async save(data: PersistedMetrics): Promise<void> {
+    const envelope: PersistedMetricsEnvelope = {
+      version: METRICS_SCHEMA_VERSION,
+      writtenAt: new Date().toISOString(),
+      pages: data.pages ?? [],
+      sessions: data.sessions ?? [],
+      registry: data.registry ?? [],
+      rollups: data.rollups ?? { minute: [], hour: [], day: [] },
+      errorGroups: data.errorGroups ?? [],
+      journalSeq: data.journalSeq,
+    };
+
+    await mkdir(this.dataDir, { recursive: true });
+    await writeFileAtomic(join(this.dataDir, ENVELOPE_FILE), JSON.stringify(envelope));
+    await this.retireLegacyFiles();
+  }
+
+  private async retireLegacyFiles(): Promise<void> {
+    const files = this.legacyFiles;
+    this.legacyFiles = [];
+    for (const name of files) {
+      const file = join(this.dataDir, name);
+      try {
+        await rename(file, `${file}.migrated`);
+      } catch (error) {
+        if (isMissing(error)) continue;
+        getMetricsConfig()
+          .getLogger()
+          .warn('[JsonFileStore] Could not retire migrated legacy metrics file', {
+            file,
+            error: error instanceof Error ? error.message : String(error),
+          });
+      }
+    }
+  }
+
+  private async readLegacyFile<T>(
+    key: keyof typeof LEGACY_FILES,
+    validate: (value: unknown) => value is T,
+  ): Promise<T | undefined> {
+    const value = await this.readFile(LEGACY_FILES[key], validate);
+    if (value === undefined || value === null) return undefined;
+    this.legacyFiles.push(LEGACY_FILES[key]);
+    return value;
+  }
+
+  private async readFile<T>(
+    name: string,
+    validate: (value: unknown) => value is T,
+  ): Promise<T | null | undefined> {
+    const file = join(this.dataDir, name);
+    let raw: string;
+    try {
+      raw = await readFile(file, 'utf-8');
+    } catch (error) {
+      if (isMissing(error)) return undefined;
+      throw error;
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      if (validate(parsed)) return parsed;
+      throw new Error('Unexpected metrics file structure');
+    } catch (error) {
+      await this.quarantine(file, error);
+      return null;
+    }
+  }
+
+  private async quarantine(file: string, reason: unknown): Promise<void> {
+    const logger = getMetricsConfig().getLogger();
+    const quarantinedAs = `${file}.corrupt-${Date.now()}`;
+    try {
+      await rename(file, quarantinedAs);
+      logger.error('[JsonFileStore] Quarantined corrupt metrics file', {
+        file,
+        quarantinedAs,
+        error: reason instanceof Error ? reason.message : String(reason),
+      });
+    } catch (error) {
+      logger.error('[JsonFileStore] Corrupt metrics file could not be quarantined', {
+        file,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+export class MemoryStore implements MetricsStore {
+  private data: PersistedMetrics = {};
+
+  constructor(initial: PersistedMetrics = {}) {
+    this.data = structuredClone(initial);
+  }
+
+  async load(): Promise<PersistedMetrics> {
+    return structuredClone(this.data);
+  }
+
+  async save(data: PersistedMetrics): Promise<void> {
+    this.data = structuredClone(data);
+  }
+}
+
+
+export function createMetricsStore(cfg: ResolvedMetricsConfig): MetricsStore {
+  if (typeof cfg.store === 'object') {
+    return cfg.store;
+  }
+  switch (cfg.store) {
+    case 'memory':
+      return new MemoryStore();
+    case 'sqlite':
+      return new SqliteStore(
+        cfg.sqliteFile ?? join(cfg.dataDir, 'metrics.sqlite'),
+        cfg.rollupRetention,
+      );
+    case 'json':
+    default:
+      return new JsonFileStore(cfg.dataDir);
+  }
+}
@@ -6,10 +6,25 @@
 
 
 
+import type { HyperLogLog } from './hyperloglog.js';
+
+export type VisitorSet = Set<string> | HyperLogLog;
+
+
+export interface SerializedHyperLogLog {
+  precision: number;
+  sparse?: number[];
+  registers?: string;
+}
+
+
+export type SerializedVisitors = string[] | SerializedHyperLogLog;
+
+
 export interface PageMetrics {
   path: string;
   views: number;
-  uniqueVisitors: Set<string>;
+  uniqueVisitors: VisitorSet;
   lastAccessed: Date;
 }
 
@@ -17,7 +32,7 @@ export interface PageMetrics {
 export interface SerializedPageMetrics {
   path: string;
   views: number;
-  uniqueVisitors: string[];
+  uniqueVisitors: SerializedVisitors;
   lastAccessed: string;
 }
 
@@ -34,6 +49,63 @@ export interface SessionMetrics {
 }
 
 
+export interface SerializedSessionMetrics {
+  sessionId: string;
+  userId?: string;
+  startTime: string;
+  lastActivity: string;
+  pageViews: number;
+  pages: string[];
+  referrer?: string;
+  userAgent?: string;
+}
+
+
+export interface PersistedMetrics {
+  pages?: SerializedPageMetrics[];
+  sessions?: SerializedSessionMetrics[];
+  registry?: SerializedMetric[];
+  rollups?: SerializedRollups;
+  errorGroups?: SerializedErrorGroup[];
+  journalSeq?: number;
+}
+
+
+export interface CollectorSnapshot extends Omit<PersistedMetrics, 'journalSeq'> {
+  version: number;
+  instances: string[];
+  takenAt: string;
+  startTime: string;
+  requests: number;
+  errors: number;
+  requestDuration: SerializedMetric;
+}
+
+
+export type JournalEventInput =
+  | {
+      type: 'pageView';
+      at: number;
+      sessionId: string;
+      path: string;
+      userId?: string;
+      referrer?: string;
+      userAgent?: string;
+    }
+  | {
+      type: 'error';
+      at: number;
+      sessionId?: string;
+      errorType?: string;
+      path?: string;
+      status?: number;
+      message?: string;
+    };
+
+
+export type JournalEvent = JournalEventInput & { seq: number };
+
+
 export interface TrafficSource {
   source: string;
   visits: number;
@@ -41,6 +113,13 @@ export interface TrafficSource {
 }
 
 
+export interface PageStats {
+  path: string;
+  views: number;
+  uniqueVisitors: number;
+}
+
+
 export interface TopPage {
   path: string;
   views: number;
@@ -49,15 +128,258 @@ export interface TopPage {
 }
 
 
-export interface RequestDurationBuckets {
-  
-  bucket1: number;
-  
-  bucket2: number;
-  
-  bucket3: number;
-  
-  total: number;
+export interface HistogramBucket {
+  le: number;
+  count: number;
+}
+
+
+export interface HistogramSnapshot {
+  buckets: HistogramBucket[];
+  count: number;
+  sum: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+
+export interface SerializedHistogram {
+  bounds: number[];
+  counts: number[];
+  count: number;
+  sum: number;
+}
+
+
+export interface SerializedSummary {
+  samples: number[];
+  count: number;
+  sum: number;
+}
+
+
+export type MetricType = 'counter' | 'gauge' | 'histogram' | 'summary';
+
+
+export type MetricLabels = Record<string, string>;
+
+
+export interface SummarySnapshot {
+  count: number;
+  sum: number;
+  quantiles: Array<{ quantile: number; value: number }>;
+}
+
+
+export interface MetricSeriesSnapshot {
+  labels: MetricLabels;
+  value?: number;
+  histogram?: HistogramSnapshot;
+  summary?: SummarySnapshot;
+}
+
+
+export interface MetricSnapshot {
+  name: string;
+  help: string;
+  type: MetricType;
+  unit?: string;
+  series: MetricSeriesSnapshot[];
+}
+
+
+export interface SerializedMetric {
+  name: string;
+  type: MetricType;
+  series: Array<{
+    labels: MetricLabels;
+    value?: number;
+    histogram?: SerializedHistogram;
+    summary?: SerializedSummary;
+  }>;
+}
+
+
+export type MetricsWindow = '1h' | '24h' | '7d';
+
+
+export type RollupResolution = 'minute' | 'hour' | 'day';
+
+
+export interface MetricsQuery {
+  window?: MetricsWindow;
+  from?: Date | number;
+  to?: Date | number;
+  compare?: boolean;
+}
+
+
+export interface WindowedMetricsData {
+  from: string;
+  to: string;
+  resolution: RollupResolution;
+  pageViews: number;
+  uniqueVisitors: number;
+  requests: number;
+  errors: number;
+  topPages: TopPage[];
+  trafficSources: TrafficSource[];
+  previous?: WindowedMetricsData;
+}
+
+
+export type TimeSeriesMetric =
+  | 'pageViews'
+  | 'uniqueVisitors'
+  | 'activeSessions'
+  | 'requests'
+  | 'errors';
+
+
+export interface TimeSeriesQuery {
+  from: Date | number;
+  to?: Date | number;
+  step?: number;
+  path?: string;
+}
+
+
+export type TimeSeriesPoint = [timestamp: number, value: number];
+
+
+export interface SerializedRollupBucket {
+  start: number;
+  pageViews: number;
+  requests: number;
+  errors: number;
+  visitors: SerializedVisitors;
+  pages: Array<{ path: string; views: number; visitors: SerializedVisitors }>;
+  pathRequests?: Array<{ path: string; requests: number }>;
+  pathErrors?: Array<{ path: string; errors: number }>;
+  sources: Array<{ source: string; visits: number }>;
+}
+
+
+export interface SerializedRollups {
+  minute: SerializedRollupBucket[];
+  hour: SerializedRollupBucket[];
+  day: SerializedRollupBucket[];
+}
+
+
+export interface TrackRequestInput {
+  path: string;
+  method: string;
+  status: number;
+  durationMs: number;
+}
+
+
+export interface TrackErrorInput {
+  type?: string;
+  path?: string;
+  status?: number;
+  message?: string;
+  sessionId?: string;
+}
+
+
+export interface SerializedErrorGroup {
+  fingerprint: string;
+  type: string;
+  message?: string;
+  count: number;
+  paths: Array<{ path: string; count: number }>;
+  statuses: Array<{ status: number; count: number }>;
+  sessions: SerializedVisitors;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+
+export interface TopError {
+  fingerprint: string;
+  type: string;
+  message?: string;
+  count: number;
+  affectedSessions: number;
+  paths: string[];
+  statuses: number[];
+  firstSeen: string;
+  lastSeen: string;
+}
+
+
+export interface ErrorTypeStats {
+  type: string;
+  count: number;
+  percentage: number;
+}
+
+
+export interface RouteErrorStats {
+  path: string;
+  errors: number;
+  requests: number;
+  ratio: number | null;
+}
+
+
+export type WebVitalName = 'LCP' | 'INP' | 'CLS' | 'TTFB' | 'FCP';
+
+
+export type WebVitalRating = 'good' | 'needs-improvement' | 'poor';
+
+
+export interface WebVitalSample {
+  name: WebVitalName;
+  value: number;
+  path: string;
+  sessionId?: string;
+}
+
+
+export interface WebVitalSummary {
+  name: WebVitalName;
+  count: number;
+  p75: number;
+  rating: WebVitalRating;
+  distribution: {
+    good: number;
+    needsImprovement: number;
+    poor: number;
+  };
+}
+
+
+export interface PageVitals {
+  path: string;
+  vitals: WebVitalSummary[];
+}
+
+
+export interface VitalsReport {
+  overall: WebVitalSummary[];
+  pages: PageVitals[];
+}
+
+
+export type ClientEvent =
+  | { type: 'pageView'; path: string; referrer?: string }
+  | { type: 'error'; path?: string; errorType?: string; message?: string }
+  | { type: 'vital'; path: string; name: WebVitalName; value: number };
+
+
+export interface ClientBatch {
+  sessionId: string;
+  events: ClientEvent[];
+}
+
+
+export interface RouteRequestDuration extends HistogramSnapshot {
+  path: string;
+  method: string;
 }
 
 
@@ -75,12 +397,25 @@ export interface MetricsData {
   uptime: number;
   requestRate: number;
   errorRate: number;
-  requestDuration: RequestDurationBuckets;
+  requestDuration: HistogramSnapshot;
+  requestDurationByRoute: RouteRequestDuration[];
+  topErrors: TopError[];
+  errorsByType: ErrorTypeStats[];
+  errorsByRoute: RouteErrorStats[];
+  webVitals: WebVitalSummary[];
+  custom: MetricSnapshot[];
 }
 
 
 export interface RealtimeEvent {
-  type: 'connection' | 'heartbeat' | 'metrics' | 'logs' | 'alerts' | 'system';
+  type:
+    | 'connection'
+    | 'heartbeat'
+    | 'metrics'
+    | 'logs'
+    | 'alerts'
+    | 'system'
+    | 'reset';
   timestamp: number;
   data?: unknown;
   clientId?: string;
@@ -0,0 +1,269 @@
+import { jsonResponse, readRequestBody } from './http.js';
+import type {
+  PageVitals,
+  VitalsReport,
+  WebVitalName,
+  WebVitalRating,
+  WebVitalSample,
+  WebVitalSummary,
+} from './types.js';
+
+export const WEB_VITAL_THRESHOLDS: Record<
+  WebVitalName,
+  { good: number; poor: number }
+> = {
+  LCP: { good: 2500, poor: 4000 },
+  INP: { good: 200, poor: 500 },
+  CLS: { good: 0.1, poor: 0.25 },
+  TTFB: { good: 800, poor: 1800 },
+  FCP: { good: 1800, poor: 3000 },
+};
+
+export const WEB_VITAL_NAMES = Object.keys(
+  WEB_VITAL_THRESHOLDS,
+) as WebVitalName[];
+
+export interface VitalsAggregatorOptions {
+  
+  maxSamples?: number;
+  
+  maxPaths?: number;
+}
+
+interface VitalStats {
+  samples: number[];
+  cursor: number;
+  good: number;
+  needsImprovement: number;
+  poor: number;
+}
+
+interface PathStats {
+  vitals: Map<WebVitalName, VitalStats>;
+  lastSeen: number;
+}
+
+
+export function rateWebVital(
+  name: WebVitalName,
+  value: number,
+): WebVitalRating {
+  const { good, poor } = WEB_VITAL_THRESHOLDS[name];
+  if (value <= good) return 'good';
+  return value <= poor ? 'needs-improvement' : 'poor';
+}
+
+
+export function normalizeVitalPath(path: string): string {
+  try {
+    return new URL(path, 'http://localhost').pathname;
+  } catch {
+    return path.split(/[?#]/)[0];
+  }
+}
+
+function percentile(values: number[], quantile: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(0, Math.ceil(quantile * sorted.length) - 1)];
+}
+
+export class VitalsAggregator {
+  private readonly overall = new Map<WebVitalName, VitalStats>();
+  private readonly paths = new Map<string, PathStats>();
+  private readonly maxSamples: number;
+  private readonly maxPaths: number;
+
+  constructor(options: VitalsAggregatorOptions = {}) {
+    this.maxSamples = Math.max(1, options.maxSamples ?? 1000);
+    this.maxPaths = Math.max(1, options.maxPaths ?? 500);
+  }
+
+  record(sample: WebVitalSample, at: number = Date.now()): void {
+    const path = normalizeVitalPath(sample.path);
+    let page = this.paths.get(path);
+    if (!page) {
+      page = { vitals: new Map(), lastSeen: at };
+      this.paths.set(path, page);
+      this.evictPaths();
+    }
+    page.lastSeen = Math.max(page.lastSeen, at);
+
+    const rating = rateWebVital(sample.name, sample.value);
+    this.add(this.overall, sample.name, sample.value, rating);
+    this.add(page.vitals, sample.name, sample.value, rating);
+  }
+
+  summary(): WebVitalSummary[] {
+    return this.summarize(this.overall);
+  }
+
+  report(): VitalsReport {
+    const pages: PageVitals[] = Array.from(this.paths.entries())
+      .map(([path, page]) => ({ path, vitals: this.summarize(page.vitals) }))
+      .sort(
+        (a, b) =>
+          b.vitals.reduce((sum, v) => sum + v.count, 0) -
+          a.vitals.reduce((sum, v) => sum + v.count, 0),
+      );
+    return { overall: this.summary(), pages };
+  }
+
+  private add(
+    stats: Map<WebVitalName, VitalStats>,
+    name: WebVitalName,
+    value: number,
+    rating: WebVitalRating,
+  ): void {
+    let vital = stats.get(name);
+    if (!vital) {
+      vital = { samples: [], cursor: 0, good: 0, needsImprovement: 0, poor: 0 };
+      stats.set(name, vital);
+    }
+    if (vital.samples.length < this.maxSamples) {
+      vital.samples.push(value);
+    } else {
+      vital.samples[vital.cursor] = value;
+      vital.cursor = (vital.cursor + 1) % this.maxSamples;
+    }
+    if (rating === 'good') vital.good++;
+    else if (rating === 'needs-improvement') vital.needsImprovement++;
+    else vital.poor++;
+  }
+
+  private summarize(stats: Map<WebVitalName, VitalStats>): WebVitalSummary[] {
+    return WEB_VITAL_NAMES.filter((name) => stats.has(name)).map((name) => {
+      const vital = stats.get(name)!;
+      const count = vital.good + vital.needsImprovement + vital.poor;
+      const p75 = percentile(vital.samples, 0.75);
+      return {
+        name,
+        count,
+        p75,
+        rating: rateWebVital(name, p75),
+        distribution: {
+          good: (vital.good / count) * 100,
+          needsImprovement: (vital.needsImprovement / count) * 100,
+          poor: (vital.poor / count) * 100,
+        },
+      };
+    });
+  }
+
+  private evictPaths(): void {
+    if (this.paths.size <= this.maxPaths) return;
+    let stalest: string | null = null;
+    let oldest = Infinity;
+    for (const [path, page] of this.paths) {
+      if (page.lastSeen < oldest) {
+        oldest = page.lastSeen;
+        stalest = path;
+      }
+    }
+    if (stalest !== null) this.paths.delete(stalest);
+  }
+}
+
+export interface VitalsHandlerOptions {
+  
+  maxBodyBytes?: number;
+  
+  maxBatchSize?: number;
+}
+
+export interface ParsedVitals {
+  samples: WebVitalSample[];
+  rejected: number;
+}
+
+function toSample(entry: unknown): WebVitalSample | null {
+  if (!entry || typeof entry !== 'object') return null;
+  const record = entry as Record<string, unknown>;
+  const name = record.name;
+  const value = record.value;
+  const path = record.path ?? record.url;
+  if (
+    typeof name !== 'string' ||
+    !WEB_VITAL_NAMES.includes(name as WebVitalName) ||
+    typeof value !== 'number' ||
+    !Number.isFinite(value) ||
+    value < 0 ||
+    typeof path !== 'string' ||
+    path === '' ||
+    path.length > 2048
+  ) {
+    return null;
+  }
+  return {
+    name: name as WebVitalName,
+    value,
+    path,
+    ...(typeof record.sessionId === 'string' && {
+      sessionId: record.sessionId,
+    }),
+  };
+}
+
+
+export function parseVitalsPayload(payload: unknown): ParsedVitals {
+  const entries = Array.isArray(payload)
+    ? payload
+    : payload &&
+        typeof payload === 'object' &&
+        Array.isArray((payload as Record<string, unknown>).samples)
+      ? ((payload as Record<string, unknown>).samples as unknown[])
+      : [payload];
+
+  const samples: WebVitalSample[] = [];
+  for (const entry of entries) {
+    const sample = toSample(entry);
+    if (sample) samples.push(sample);
+  }
+  return { samples, rejected: entries.length - samples.length };
+}
+
+
+export function createVitalsHandler(
+  collector: { trackWebVitals(samples: WebVitalSample[]): void },
+  options: VitalsHandlerOptions = {},
+): (request: Request) => Promise<Response> {
+  const maxBodyBytes = options.maxBodyBytes ?? 64 * 1024;
+  const maxBatchSize = options.maxBatchSize ?? 100;
+
+  return async (request: Request) => {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', {
+        status: 405,
+        headers: { Allow: 'POST' },
+      });
+    }
+
+    const body = await readRequestBody(request, maxBodyBytes);
+    if (body === null) {
+      return jsonResponse(413, { error: 'Payload too large' });
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return jsonResponse(400, { error: 'Invalid JSON' });
+    }
+    const parsed = parseVitalsPayload(payload);
+    if (parsed.samples.length + parsed.rejected > maxBatchSize) {
+      return jsonResponse(413, { error: 'Too many samples' });
+    }
+    if (parsed.samples.length === 0) {
+      return jsonResponse(400, {
+        error: 'No valid samples',
+        rejected: parsed.rejected,
+      });
+    }
+
+    collector.trackWebVitals(parsed.samples);
+    return jsonResponse(202, {
+      accepted: parsed.samples.length,
+      rejected: parsed.rejected,
+    });
+  };
+}
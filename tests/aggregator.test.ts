@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { configureMetrics, resetMetricsConfig } from '../src/config.js';
+import { FleetAggregator, aggregateSnapshots } from '../src/aggregator.js';
+import { HyperLogLog } from '../src/hyperloglog.js';
+import { MetricsCollector, createMetricsCollector } from '../src/metrics-collector.js';
+
+function replica(instanceId: string, options: { hyperloglog?: boolean } = {}): MetricsCollector {
+	configureMetrics({
+		instanceId,
+		store: 'memory',
+		uniqueVisitors: options.hyperloglog ? 'hyperloglog' : 'exact',
+	});
+	return createMetricsCollector();
+}
+
+describe('aggregateSnapshots', () => {
+	let collectors: MetricsCollector[];
+
+	beforeEach(() => {
+		resetMetricsConfig();
+		collectors = [];
+	});
+
+	afterEach(() => {
+		collectors.forEach((c) => c.destroy());
+	});
+
+	it('sums counters, unions visitors and deduplicates sessions', () => {
+		const a = replica('a');
+		const b = replica('b');
+		collectors.push(a, b);
+		a.trackPageView('s1', '/home');
+		a.trackPageView('s2', '/home');
+		a.trackError();
+		b.trackPageView('s1', '/pricing');
+		b.trackPageView('s3', '/home');
+		b.trackRequest({ path: '/home', method: 'GET', status: 200, durationMs: 12 });
+		a.registry.counter('signups_total').inc(2);
+		b.registry.counter('signups_total').inc(3);
+
+		const fleet = aggregateSnapshots([a.snapshot(), b.snapshot()]);
+		expect(fleet.instances).toEqual(['a', 'b']);
+		expect(fleet.requests).toBe(1);
+		expect(fleet.errors).toBe(1);
+		expect(fleet.sessions!.map((s) => s.sessionId).sort()).toEqual(['s1', 's2', 's3']);
+		expect(fleet.sessions!.find((s) => s.sessionId === 's1')).toMatchObject({
+			pageViews: 2,
+			pages: ['/pricing', '/home'],
+		});
+		expect(fleet.registry).toEqual([
+			{ name: 'signups_total', type: 'counter', series: [{ labels: {}, value: 5 }] },
+		]);
+
+		const metrics = MetricsCollector.fromSnapshot(fleet).getMetrics();
+		expect(metrics.pageViews).toBe(4);
+		expect(metrics.totalVisitors).toBe(3);
+		expect(metrics.topPages[0]).toMatchObject({ path: '/home', views: 3, uniqueVisitors: 3 });
+		expect(metrics.requestDuration.count).toBe(1);
+		expect(MetricsCollector.fromSnapshot(fleet).getMetrics({ window: '1h' }).uniqueVisitors).toBe(3);
+	});
+
+	it('unions hyperloglog sketches with exact visitor sets', () => {
+		const a = replica('a', { hyperloglog: true });
+		const b = replica('b');
+		collectors.push(a, b);
+		a.trackPageView('s1', '/home');
+		b.trackPageView('s1', '/home');
+		b.trackPageView('s2', '/home');
+
+		const fleet = aggregateSnapshots([a.snapshot(), b.snapshot()]);
+		const [page] = fleet.pages!;
+		expect(HyperLogLog.fromJSON(page.uniqueVisitors as never).size).toBe(2);
+	});
+
+	it('returns an empty snapshot for no inputs', () => {
+		expect(aggregateSnapshots([])).toMatchObject({ instances: [], requests: 0, pages: [] });
+	});
+});
+
+describe('FleetAggregator', () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		resetMetricsConfig();
+		dir = await mkdtemp(join(tmpdir(), 'tinyland-fleet-'));
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it('serves fleet-wide metrics from published snapshots', async () => {
+		const a = replica('web-1');
+		const b = replica('web/2');
+		a.trackPageView('s1', '/');
+		b.trackPageView('s2', '/');
+
+		const aggregator = new FleetAggregator(dir);
+		await aggregator.publish(a);
+		await aggregator.publish(b);
+		expect((await readdir(dir)).sort()).toEqual(['web-1.snapshot.json', 'web_2.snapshot.json']);
+
+		const metrics = await aggregator.getMetrics();
+		expect(metrics.pageViews).toBe(2);
+		expect(metrics.totalVisitors).toBe(2);
+		a.destroy();
+		b.destroy();
+	});
+
+	it('skips stale and unreadable snapshots', async () => {
+		const a = replica('a');
+		const aggregator = new FleetAggregator(dir, { maxSnapshotAgeMs: 60000 });
+		await aggregator.publish(a);
+		await writeFile(join(dir, 'broken.snapshot.json'), '{');
+		await writeFile(
+			join(dir, 'old.snapshot.json'),
+			JSON.stringify({ ...a.snapshot(), instances: ['old'], takenAt: '2000-01-01T00:00:00Z' }),
+		);
+
+		expect((await aggregator.read()).map((s) => s.instances)).toEqual([['a']]);
+		a.destroy();
+	});
+
+	it('returns no snapshots when the directory does not exist', async () => {
+		expect(await new FleetAggregator(join(dir, 'missing')).read()).toEqual([]);
+	});
+
+	it('refuses to publish ephemeral collectors', async () => {
+		const view = MetricsCollector.fromSnapshot(aggregateSnapshots([]));
+		await expect(new FleetAggregator(dir).publish(view)).rejects.toThrow(/Ephemeral/);
+	});
+});
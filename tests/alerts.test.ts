@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { configureMetrics, resetMetricsConfig } from '../src/config.js';
+import { AlertEngine, resolveAlertMetric, validateAlertRule } from '../src/alerts.js';
+import type { AlertRule } from '../src/alerts.js';
+import { EventStreamManager } from '../src/event-stream.js';
+import { MetricsCollector } from '../src/metrics-collector.js';
+import { parseSse } from '../src/sse.js';
+import type { MetricsData } from '../src/types.js';
+
+const baseline = new MetricsCollector({ ephemeral: true }).getMetrics();
+
+function metrics(overrides: Partial<MetricsData> = {}): MetricsData {
+	return { ...baseline, ...overrides };
+}
+
+const errorRate: AlertRule = {
+	name: 'high-error-rate',
+	type: 'threshold',
+	metric: 'errorRate',
+	op: '>',
+	value: 5,
+	clearValue: 2,
+	for: 60000,
+	severity: 'critical',
+};
+
+describe('AlertEngine', () => {
+	let clock: number;
+	let engine: AlertEngine;
+	let mgr: EventStreamManager;
+
+	function createEngine(rules: AlertRule[], onAlert = vi.fn()) {
+		engine = new AlertEngine({ rules, now: () => clock, manager: mgr, onAlert });
+		return onAlert;
+	}
+
+	beforeEach(() => {
+		resetMetricsConfig();
+		configureMetrics({ eventHeartbeatIntervalMs: 0 });
+		EventStreamManager.resetInstance();
+		mgr = EventStreamManager.getInstance();
+		clock = 1_000_000;
+	});
+
+	afterEach(() => {
+		engine?.stop();
+		vi.useRealTimers();
+	});
+
+	describe('threshold rules', () => {
+		it('waits for the for duration before firing', () => {
+			const onAlert = createEngine([errorRate]);
+
+			expect(engine.evaluate(metrics({ errorRate: 8 }))).toEqual([]);
+			expect(engine.getAlerts()).toMatchObject([{ rule: 'high-error-rate', state: 'pending', activeSince: clock }]);
+			clock += 59999;
+			expect(engine.evaluate(metrics({ errorRate: 8 }))).toEqual([]);
+			clock += 1;
+			const [fired] = engine.evaluate(metrics({ errorRate: 8 }));
+
+			expect(fired).toMatchObject({
+				rule: 'high-error-rate',
+				state: 'firing',
+				severity: 'critical',
+				value: 8,
+				threshold: 5,
+				activeSince: 1_000_000,
+				firedAt: 1_060_000,
+			});
+			expect(onAlert).toHaveBeenCalledWith(fired);
+		});
+
+		it('drops pending alerts that recover before firing', () => {
+			const onAlert = createEngine([errorRate]);
+			engine.evaluate(metrics({ errorRate: 8 }));
+			clock += 30000;
+			engine.evaluate(metrics({ errorRate: 1 }));
+			clock += 30000;
+			engine.evaluate(metrics({ errorRate: 8 }));
+
+			expect(engine.getAlerts()[0]).toMatchObject({ state: 'pending', activeSince: clock });
+			expect(onAlert).not.toHaveBeenCalled();
+		});
+
+		it('keeps firing until the value clears the hysteresis band', () => {
+			createEngine([{ ...errorRate, for: 0 }]);
+			expect(engine.evaluate(metrics({ errorRate: 6 }))[0].state).toBe('firing');
+
+			clock += 1000;
+			expect(engine.evaluate(metrics({ errorRate: 4 }))).toEqual([]);
+			expect(engine.getAlerts()[0].state).toBe('firing');
+
+			clock += 1000;
+			const [resolved] = engine.evaluate(metrics({ errorRate: 2 }));
+			expect(resolved).toMatchObject({ state: 'resolved', value: 2, firedAt: 1_000_000, resolvedAt: 1_002_000 });
+			expect(engine.getAlerts()).toEqual([]);
+		});
+
+		it('supports nested fields and selector functions', () => {
+			createEngine([
+				{ name: 'slow', type: 'threshold', metric: 'requestDuration.p99', op: '>=', value: 0 },
+				{ name: 'quiet', type: 'threshold', metric: (m) => m.activeUsers, op: '<', value: 1 },
+			]);
+			expect(engine.evaluate(metrics()).map((alert) => alert.rule)).toEqual(['slow', 'quiet']);
+		});
+	});
+
+	describe('rate rules', () => {
+		it('fires on the per-second change across the window', () => {
+			createEngine([
+				{ name: 'error-spike', type: 'rate', metric: 'totalErrors', op: '>', value: 1, windowMs: 60000 },
+			]);
+
+			expect(engine.evaluate(metrics({ totalErrors: 0 }))).toEqual([]);
+			clock += 30000;
+			expect(engine.evaluate(metrics({ totalErrors: 20 }))).toEqual([]);
+			clock += 30000;
+			const [fired] = engine.evaluate(metrics({ totalErrors: 90 }));
+			expect(fired.state).toBe('firing');
+			expect(fired.value).toBe(90);
+
+			clock += 60000;
+			expect(engine.evaluate(metrics({ totalErrors: 100 }))[0].state).toBe('resolved');
+		});
+	});
+
+	describe('absence rules', () => {
+		it('fires when a metric stops changing and resolves when it moves again', () => {
+			createEngine([{ name: 'no-traffic', type: 'absence', metric: 'pageViews', windowMs: 300000 }]);
+
+			engine.evaluate(metrics({ pageViews: 10 }));
+			clock += 299999;
+			expect(engine.evaluate(metrics({ pageViews: 10 }))).toEqual([]);
+			clock += 1;
+			expect(engine.evaluate(metrics({ pageViews: 10 }))[0]).toMatchObject({
+				state: 'firing',
+				message: 'pageViews has not changed for 300000ms (firing)',
+			});
+
+			clock += 1000;
+			expect(engine.evaluate(metrics({ pageViews: 11 }))[0].state).toBe('resolved');
+		});
+
+		it('fires when the metric is missing', () => {
+			createEngine([{ name: 'missing', type: 'absence', metric: 'doesNotExist', windowMs: 1000 }]);
+			expect(engine.evaluate(metrics())[0]).toMatchObject({ state: 'firing', value: null });
+		});
+	});
+
+	it('broadcasts alert transitions to stream clients', () => {
+		const ctrl = { enqueue: vi.fn(), close: vi.fn(), desiredSize: 1 } as unknown as ReadableStreamDefaultController;
+		mgr.addClient('c1', ctrl, { subscription: { alertSeverities: ['critical'] } });
+		createEngine([{ ...errorRate, for: 0 }]);
+		engine.evaluate(metrics({ errorRate: 9 }));
+
+		const alerts = (ctrl.enqueue as ReturnType<typeof vi.fn>).mock.calls
+			.map((call) => parseSse(call[0] as string)[0])
+			.filter((message) => message.event === 'alerts');
+		expect(alerts).toHaveLength(1);
+		expect(JSON.parse(alerts[0].data!).data).toMatchObject({ rule: 'high-error-rate', state: 'firing' });
+		mgr.removeClient('c1');
+	});
+
+	it('loads rules from config', () => {
+		configureMetrics({ alertRules: [errorRate] });
+		engine = new AlertEngine({ manager: mgr });
+		engine.evaluate(metrics({ errorRate: 10 }));
+		expect(engine.getAlerts()).toHaveLength(1);
+	});
+
+	it('evaluates the collector on the configured interval', () => {
+		vi.useFakeTimers();
+		const collector = new MetricsCollector({ ephemeral: true });
+		const onAlert = vi.fn();
+		engine = new AlertEngine({
+			rules: [{ name: 'always', type: 'threshold', metric: 'pageViews', op: '>=', value: 0 }],
+			intervalMs: 1000,
+			manager: mgr,
+			onAlert,
+		});
+		engine.start(collector);
+
+		vi.advanceTimersByTime(999);
+		expect(onAlert).not.toHaveBeenCalled();
+		vi.advanceTimersByTime(1);
+		expect(onAlert).toHaveBeenCalledTimes(1);
+		collector.destroy();
+	});
+
+	it('rejects duplicate rule names', () => {
+		createEngine([errorRate]);
+		expect(() => engine.addRule(errorRate)).toThrow('Duplicate alert rule');
+	});
+});
+
+describe('validateAlertRule', () => {
+	it('rejects malformed rules', () => {
+		expect(() => validateAlertRule({ ...errorRate, name: '' })).toThrow('require a name');
+		expect(() => validateAlertRule({ ...errorRate, op: '!=' as never })).toThrow('unknown comparison');
+		expect(() => validateAlertRule({ ...errorRate, type: 'bogus' } as never)).toThrow('unknown rule type');
+		expect(() =>
+			validateAlertRule({ name: 'r', type: 'rate', metric: 'errors', op: '>', value: 1, windowMs: 0 }),
+		).toThrow('windowMs must be positive');
+		expect(() => validateAlertRule({ ...errorRate, for: -1 })).toThrow('for must be');
+	});
+});
+
+describe('resolveAlertMetric', () => {
+	it('returns null for non-numeric paths', () => {
+		expect(resolveAlertMetric(metrics(), 'topPages')).toBeNull();
+		expect(resolveAlertMetric(metrics(), 'pageViews.nested')).toBeNull();
+		expect(resolveAlertMetric(metrics({ pageViews: 3 }), 'pageViews')).toBe(3);
+	});
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { configureMetrics, resetMetricsConfig } from '../src/config.js';
+import { AnomalyDetector, describeAnomaly, isAnomalous, scoreAnomaly, validateAnomalyRule } from '../src/anomaly.js';
+import type { AnomalyRule } from '../src/anomaly.js';
+import { EventStreamManager } from '../src/event-stream.js';
+import { MetricsCollector } from '../src/metrics-collector.js';
+import { parseSse } from '../src/sse.js';
+
+const weekly: AnomalyRule = {
+	name: 'traffic-weekly',
+	metric: 'requests',
+	baseline: 'seasonal',
+	scoring: 'zscore',
+};
+
+function diurnal(hours: number): number[] {
+	return Array.from({ length: hours }, (_, hour) => (hour % 24 >= 8 && hour % 24 < 20 ? 1000 : 100));
+}
+
+describe('scoreAnomaly', () => {
+	it('treats the nightly trough as normal against a seasonal baseline', () => {
+		const series = diurnal(2 * 168 + 1);
+		series[series.length - 1] = 100;
+		const score = scoreAnomaly(series, weekly)!;
+
+		expect(score.expected).toBe(100);
+		expect(isAnomalous(score, weekly)).toBe(false);
+	});
+
+	it('flags a daytime drop against the same hour last week', () => {
+		const series = diurnal(2 * 168 + 10);
+		expect(series[series.length - 1]).toBe(1000);
+		series[series.length - 1] = 200;
+		const score = scoreAnomaly(series, weekly)!;
+
+		expect(score).toMatchObject({ expected: 1000, direction: 'drop', changePercent: -80 });
+		expect(isAnomalous(score, weekly)).toBe(true);
+		expect(describeAnomaly(score, weekly)).toBe('requests dropped 80% vs same hour last week');
+	});
+
+	it('flags spikes over an EWMA baseline with MAD scoring', () => {
+		const rule: AnomalyRule = { name: 'errors', metric: 'errors', baseline: 'ewma', scoring: 'mad', history: 12 };
+		const noisy = [50, 52, 48, 51, 49, 50, 53, 47, 50, 51, 49, 50];
+
+		expect(isAnomalous(scoreAnomaly([...noisy, 54], rule)!, rule)).toBe(false);
+		const spike = scoreAnomaly([...noisy, 150], rule)!;
+		expect(spike.direction).toBe('spike');
+		expect(isAnomalous(spike, rule)).toBe(true);
+		expect(describeAnomaly(spike, rule)).toMatch(/^errors spiked \d+% vs recent average$/);
+	});
+
+	it('is deterministic for identical input', () => {
+		const rule: AnomalyRule = { name: 'r', metric: 'pageViews', baseline: 'ewma', scoring: 'zscore' };
+		const series = Array.from({ length: 25 }, (_, i) => 100 + ((i * 37) % 11));
+		expect(scoreAnomaly(series, rule)).toEqual(scoreAnomaly([...series], rule));
+	});
+
+	it('returns null without enough history', () => {
+		expect(scoreAnomaly(diurnal(100), weekly)).toBeNull();
+		expect(scoreAnomaly([], { ...weekly, baseline: 'ewma' })).toBeNull();
+	});
+
+	it('honours minimum counts and allowed directions', () => {
+		const rule: AnomalyRule = { ...weekly, baseline: 'ewma', history: 4 };
+		expect(isAnomalous(scoreAnomaly([1, 1, 1, 1, 8], rule)!, rule)).toBe(false);
+
+		const dropsOnly: AnomalyRule = { ...rule, directions: ['drop'] };
+		expect(isAnomalous(scoreAnomaly([100, 100, 100, 100, 300], dropsOnly)!, dropsOnly)).toBe(false);
+		expect(isAnomalous(scoreAnomaly([100, 100, 100, 100, 10], dropsOnly)!, dropsOnly)).toBe(true);
+	});
+});
+
+describe('AnomalyDetector', () => {
+	const MINUTE = 60000;
+	const start = Date.UTC(2026, 0, 5, 12, 0, 0);
+	let collector: MetricsCollector;
+
+	const rule: AnomalyRule = {
+		name: 'request-spike',
+		metric: 'requests',
+		baseline: 'ewma',
+		scoring: 'zscore',
+		stepMs: MINUTE,
+		history: 10,
+		severity: 'critical',
+	};
+
+	function trafficAt(minute: number, requests: number) {
+		vi.setSystemTime(start + minute * MINUTE);
+		for (let i = 0; i < requests; i++) {
+			collector.trackRequest({ path: '/home', method: 'GET', status: 200, durationMs: 5 });
+		}
+	}
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(start);
+		resetMetricsConfig();
+		configureMetrics({ eventHeartbeatIntervalMs: 0 });
+		EventStreamManager.resetInstance();
+		collector = new MetricsCollector({ ephemeral: true });
+	});
+
+	afterEach(() => {
+		collector.destroy();
+		vi.useRealTimers();
+	});
+
+	it('fires once per anomaly and resolves when traffic returns to normal', () => {
+		const onAnomaly = vi.fn();
+		const detector = new AnomalyDetector({ rules: [rule], onAnomaly });
+		for (let minute = 0; minute < 11; minute++) trafficAt(minute, 20);
+		trafficAt(11, 200);
+		trafficAt(12, 210);
+		trafficAt(13, 20);
+
+		const [fired] = detector.evaluate(collector, start + 12 * MINUTE);
+		expect(fired).toMatchObject({
+			kind: 'anomaly',
+			rule: 'request-spike',
+			state: 'firing',
+			severity: 'critical',
+			direction: 'spike',
+			value: 200,
+			expected: 20,
+			bucketStart: start + 11 * MINUTE,
+		});
+		expect(detector.evaluate(collector, start + 12 * MINUTE + 30000)).toEqual([]);
+		expect(detector.getAnomalies()).toHaveLength(1);
+
+		const [resolved] = detector.evaluate(collector, start + 14 * MINUTE);
+		expect(resolved).toMatchObject({ state: 'resolved', value: 20, resolvedAt: start + 14 * MINUTE });
+		expect(detector.getAnomalies()).toEqual([]);
+		expect(onAnomaly).toHaveBeenCalledTimes(2);
+	});
+
+	it('publishes anomalies as alerts events', () => {
+		const mgr = EventStreamManager.getInstance();
+		const ctrl = { enqueue: vi.fn(), close: vi.fn(), desiredSize: 1 } as unknown as ReadableStreamDefaultController;
+		mgr.addClient('c1', ctrl);
+		const detector = new AnomalyDetector({ rules: [rule], manager: mgr });
+		for (let minute = 0; minute < 11; minute++) trafficAt(minute, 20);
+		trafficAt(11, 0);
+
+		detector.evaluate(collector, start + 12 * MINUTE);
+		const alerts = (ctrl.enqueue as ReturnType<typeof vi.fn>).mock.calls
+			.map((call) => parseSse(call[0] as string)[0])
+			.filter((message) => message.event === 'alerts');
+		expect(alerts).toHaveLength(1);
+		expect(JSON.parse(alerts[0].data!).data).toMatchObject({
+			kind: 'anomaly',
+			direction: 'drop',
+			message: 'requests dropped 100% vs recent average',
+		});
+		mgr.removeClient('c1');
+	});
+
+	it('rejects rules whose history outlives the rollup retention', () => {
+		const threeWeeks: AnomalyRule = { ...weekly, name: 'traffic-3w', seasons: 3 };
+		expect(validateAnomalyRule(weekly)).toBe(weekly);
+		expect(() => new AnomalyDetector({ rules: [threeWeeks] })).toThrow(
+			'[AnomalyDetector] Invalid rule "traffic-3w": history needs rollupRetention.hour of at least 506, got 360',
+		);
+
+		configureMetrics({ rollupRetention: { hour: 506 } });
+		expect(() => new AnomalyDetector({ rules: [threeWeeks] })).not.toThrow();
+		expect(() => validateAnomalyRule({ ...rule, history: 180 })).toThrow('rollupRetention.minute of at least 182, got 180');
+	});
+
+	it('evaluates on its interval', () => {
+		const onAnomaly = vi.fn();
+		const detector = new AnomalyDetector({ rules: [rule], intervalMs: MINUTE, now: () => Date.now(), onAnomaly });
+		for (let minute = 0; minute < 11; minute++) trafficAt(minute, 20);
+		trafficAt(11, 200);
+		vi.setSystemTime(start + 11 * MINUTE + 59000);
+		detector.start(collector);
+
+		vi.advanceTimersByTime(MINUTE);
+		expect(onAnomaly).toHaveBeenCalledTimes(1);
+		detector.stop();
+	});
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MetricsClient } from '../src/client.js';
+import type { BrowserEnvironment } from '../src/client.js';
+import type { ClientBatch } from '../src/types.js';
+
+type Listener = () => void;
+
+function createEnvironment() {
+	const listeners = new Map<string, Set<Listener>>();
+	const on = (type: string, listener: Listener) => {
+		if (!listeners.has(type)) listeners.set(type, new Set());
+		listeners.get(type)!.add(listener);
+	};
+	const off = (type: string, listener: Listener) => listeners.get(type)?.delete(listener);
+	const storage = new Map<string, string>();
+	const beacons: ClientBatch[] = [];
+	let uuid = 0;
+
+	const env = {
+		location: { pathname: '/' },
+		document: {
+			referrer: 'https://news.example.com/',
+			visibilityState: 'visible',
+			addEventListener: on,
+			removeEventListener: off,
+		},
+		history: {
+			pushState(_state: unknown, _unused: unknown, url: string) {
+				env.location.pathname = url;
+			},
+			replaceState(_state: unknown, _unused: unknown, url: string) {
+				env.location.pathname = url;
+			},
+		},
+		navigator: {
+			sendBeacon: vi.fn((_url: string, data: string) => {
+				beacons.push(JSON.parse(data));
+				return true;
+			}),
+		},
+		sessionStorage: {
+			getItem: (key: string) => storage.get(key) ?? null,
+			setItem: (key: string, value: string) => void storage.set(key, value),
+		},
+		crypto: { randomUUID: () => `00000000-0000-4000-8000-${String(++uuid).padStart(12, '0')}` },
+		addEventListener: on,
+		removeEventListener: off,
+	};
+	const emit = (type: string) => listeners.get(type)?.forEach((listener) => listener());
+	return { env: env as BrowserEnvironment & typeof env, beacons, storage, emit, listeners };
+}
+
+describe('MetricsClient', () => {
+	let browser: ReturnType<typeof createEnvironment>;
+	let now: number;
+	let client: MetricsClient;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		browser = createEnvironment();
+		now = 1_000_000;
+		client = new MetricsClient({ environment: browser.env, now: () => now, endpoint: '/collect' });
+	});
+
+	afterEach(() => {
+		client.stop();
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+	});
+
+	it('tracks the landing page with the document referrer', () => {
+		client.start();
+		client.flush();
+
+		expect(browser.env.navigator.sendBeacon).toHaveBeenCalledWith('/collect', expect.any(String));
+		expect(browser.beacons).toEqual([
+			{
+				sessionId: client.sessionId,
+				events: [{ type: 'pageView', path: '/', referrer: 'https://news.example.com/' }],
+			},
+		]);
+	});
+
+	it('detects pushState, replaceState and popstate navigations', () => {
+		client.start();
+		browser.env.history.pushState({}, '', '/docs');
+		browser.env.history.replaceState({}, '', '/docs');
+		browser.env.history.replaceState({}, '', '/docs/intro');
+		browser.env.location.pathname = '/';
+		browser.emit('popstate');
+		client.flush();
+
+		expect(browser.beacons[0].events).toEqual([
+			{ type: 'pageView', path: '/', referrer: 'https://news.example.com/' },
+			{ type: 'pageView', path: '/docs' },
+			{ type: 'pageView', path: '/docs/intro' },
+			{ type: 'pageView', path: '/' },
+		]);
+	});
+
+	it('restores history methods and listeners on stop', () => {
+		const { pushState } = browser.env.history;
+		client.start();
+		expect(browser.env.history.pushState).not.toBe(pushState);
+		client.stop();
+
+		expect(browser.env.history.pushState).toBe(pushState);
+		expect(browser.listeners.get('popstate')?.size).toBe(0);
+		expect(browser.listeners.get('visibilitychange')?.size).toBe(0);
+	});
+
+	it('flushes when the page is hidden', () => {
+		client.start();
+		browser.emit('visibilitychange');
+		expect(browser.beacons).toHaveLength(0);
+
+		browser.env.document.visibilityState = 'hidden';
+		browser.emit('visibilitychange');
+		expect(browser.beacons).toHaveLength(1);
+	});
+
+	it('flushes full batches immediately and partial batches on the interval', () => {
+		client = new MetricsClient({ environment: browser.env, now: () => now, batchSize: 3, flushIntervalMs: 1000 });
+		client.start();
+		client.trackError({ type: 'TypeError', message: 'boom' });
+		client.trackVital('LCP', 1800);
+		expect(browser.beacons).toHaveLength(1);
+		expect(browser.beacons[0].events.map((event) => event.type)).toEqual(['pageView', 'error', 'vital']);
+
+		client.trackPageView('/next');
+		vi.advanceTimersByTime(1000);
+		expect(browser.beacons).toHaveLength(2);
+		expect(browser.beacons[1].events).toEqual([{ type: 'pageView', path: '/next' }]);
+	});
+
+	it('reuses the stored session until it goes idle', () => {
+		client.start();
+		const first = client.sessionId;
+		client.stop();
+
+		now += 10 * 60 * 1000;
+		const resumed = new MetricsClient({ environment: browser.env, now: () => now });
+		resumed.trackPageView('/again');
+		expect(resumed.sessionId).toBe(first);
+
+		now += 31 * 60 * 1000;
+		resumed.trackPageView('/later');
+		expect(resumed.sessionId).not.toBe(first);
+		resumed.flush();
+
+		expect(browser.beacons.at(-2)).toMatchObject({ sessionId: first, events: [{ type: 'pageView', path: '/again' }] });
+		expect(browser.beacons.at(-1)).toEqual({
+			sessionId: resumed.sessionId,
+			events: [{ type: 'pageView', path: '/later' }],
+		});
+	});
+
+	it('falls back to fetch with keepalive when the beacon is refused', () => {
+		const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 202 }));
+		vi.stubGlobal('fetch', fetchMock);
+		browser.env.navigator.sendBeacon.mockReturnValue(false);
+
+		client.trackPageView('/offline');
+		client.flush();
+
+		expect(fetchMock).toHaveBeenCalledWith('/collect', expect.objectContaining({ method: 'POST', keepalive: true }));
+		expect(JSON.parse(fetchMock.mock.calls[0][1].body).events).toEqual([
+			{ type: 'pageView', path: '/offline', referrer: 'https://news.example.com/' },
+		]);
+	});
+});
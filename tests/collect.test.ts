@@ -0,0 +1,109 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createCollectHandler, parseClientBatch } from '../src/collect.js';
+import { MetricsCollector } from '../src/metrics-collector.js';
+
+const SESSION = 'c0ffee00-1234-4abc-9def-000000000001';
+
+const post = (body: unknown, headers: Record<string, string> = {}) =>
+	new Request('http://localhost/collect', {
+		method: 'POST',
+		body: typeof body === 'string' ? body : JSON.stringify(body),
+		headers,
+	});
+
+const noopTarget = () => ({ trackPageView: () => {}, trackError: () => {}, trackWebVitals: () => {} });
+
+describe('parseClientBatch', () => {
+	it('requires a well-formed session id and event list', () => {
+		expect(parseClientBatch(null)).toBeNull();
+		expect(parseClientBatch({ sessionId: 'short', events: [] })).toBeNull();
+		expect(parseClientBatch({ sessionId: 'has spaces in it', events: [] })).toBeNull();
+		expect(parseClientBatch({ sessionId: SESSION })).toBeNull();
+		expect(parseClientBatch({ sessionId: SESSION, events: [] })).toEqual({ sessionId: SESSION, events: [], rejected: 0 });
+	});
+
+	it('keeps valid events and counts the rest as rejected', () => {
+		const batch = parseClientBatch({
+			sessionId: SESSION,
+			events: [
+				{ type: 'pageView', path: '/home', referrer: 'https://google.com/' },
+				{ type: 'pageView', path: 'relative' },
+				{ type: 'error', errorType: 'TypeError', message: 'x is undefined', path: '/home' },
+				{ type: 'vital', name: 'LCP', value: 1200, path: '/home' },
+				{ type: 'vital', name: 'LCP', value: -5, path: '/home' },
+				{ type: 'click', path: '/home' },
+			],
+		});
+
+		expect(batch?.events).toEqual([
+			{ type: 'pageView', path: '/home', referrer: 'https://google.com/' },
+			{ type: 'error', errorType: 'TypeError', message: 'x is undefined', path: '/home' },
+			{ type: 'vital', name: 'LCP', value: 1200, path: '/home' },
+		]);
+		expect(batch?.rejected).toBe(3);
+	});
+});
+
+describe('createCollectHandler', () => {
+	let collector: MetricsCollector;
+
+	afterEach(() => {
+		collector?.destroy();
+	});
+
+	it('feeds page views, errors and vitals into the collector', async () => {
+		collector = new MetricsCollector({ ephemeral: true });
+		const handler = createCollectHandler(collector);
+		const response = await handler(
+			post(
+				{
+					sessionId: SESSION,
+					events: [
+						{ type: 'pageView', path: '/', referrer: 'https://google.com/search' },
+						{ type: 'pageView', path: '/docs' },
+						{ type: 'error', errorType: 'ChunkLoadError', path: '/docs' },
+						{ type: 'vital', name: 'INP', value: 80, path: '/docs' },
+					],
+				},
+				{ 'user-agent': 'TestBrowser/1.0' },
+			),
+		);
+
+		expect(response.status).toBe(202);
+		expect(await response.json()).toEqual({ accepted: 4, rejected: 0 });
+		const metrics = collector.getMetrics();
+		expect(metrics.pageViews).toBe(2);
+		expect(metrics.totalErrors).toBe(1);
+		expect(metrics.webVitals).toEqual([expect.objectContaining({ name: 'INP', count: 1 })]);
+		expect(collector.getSessionMetrics(SESSION)).toMatchObject({
+			pages: ['/', '/docs'],
+			userAgent: 'TestBrowser/1.0',
+			referrer: 'https://google.com/search',
+		});
+	});
+
+	it('rejects non-POST requests', async () => {
+		const response = await createCollectHandler(noopTarget())(new Request('http://localhost/collect'));
+		expect(response.status).toBe(405);
+		expect(response.headers.get('Allow')).toBe('POST');
+	});
+
+	it('rejects malformed bodies and batches', async () => {
+		const handler = createCollectHandler(noopTarget());
+		expect((await handler(post('{oops'))).status).toBe(400);
+		const response = await handler(post({ sessionId: 'x', events: [] }));
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({ error: 'Invalid batch' });
+	});
+
+	it('enforces body and batch size limits', async () => {
+		const small = createCollectHandler(noopTarget(), { maxBodyBytes: 32 });
+		expect((await small(post({ sessionId: SESSION, events: [] }))).status).toBe(413);
+
+		const batched = createCollectHandler(noopTarget(), { maxBatchSize: 1 });
+		const events = [{ type: 'pageView', path: '/' }, { type: 'pageView', path: '/a' }];
+		const response = await batched(post({ sessionId: SESSION, events }));
+		expect(response.status).toBe(413);
+		expect(await response.json()).toEqual({ error: 'Too many events' });
+	});
+});
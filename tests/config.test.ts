@@ -43,6 +43,29 @@ describe('metrics config', () => {
 		it('returns default registerShutdownHook as false', () => {
 			expect(getMetricsConfig().registerShutdownHook).toBe(false);
 		});
+
+		it('returns default request duration buckets', () => {
+			expect(getMetricsConfig().requestDurationBucketsMs).toEqual([
+				5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+			]);
+		});
+
+		it('returns default maxSeriesPerMetric of 1000', () => {
+			expect(getMetricsConfig().maxSeriesPerMetric).toBe(1000);
+		});
+
+		it('returns default rollup retention', () => {
+			expect(getMetricsConfig().rollupRetention).toEqual({ minute: 180, hour: 360, day: 90 });
+		});
+
+		it('returns the json store by default', () => {
+			expect(getMetricsConfig().store).toBe('json');
+			expect(getMetricsConfig().sqliteFile).toBeNull();
+		});
+
+		it('returns null otlp exporter config by default', () => {
+			expect(getMetricsConfig().otlp).toBeNull();
+		});
 	});
 
 	describe('configureMetrics', () => {
@@ -82,6 +105,11 @@ describe('metrics config', () => {
 			expect(getMetricsConfig().registerShutdownHook).toBe(true);
 		});
 
+		it('fills unset rollup retention fields with defaults', () => {
+			configureMetrics({ rollupRetention: { minute: 60 } });
+			expect(getMetricsConfig().rollupRetention).toEqual({ minute: 60, hour: 360, day: 90 });
+		});
+
 		it('merges with existing config', () => {
 			configureMetrics({ dataDir: '/tmp/a' });
 			configureMetrics({ isDevelopment: true });
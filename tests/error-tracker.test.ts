@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { ErrorTracker, fingerprintError, normalizeErrorMessage } from '../src/error-tracker.js';
+import { HyperLogLog } from '../src/hyperloglog.js';
+
+describe('normalizeErrorMessage', () => {
+	it('replaces volatile tokens with placeholders', () => {
+		expect(normalizeErrorMessage('User 42 not found')).toBe('User <n> not found');
+		expect(normalizeErrorMessage('Order 3fa85f64-5717-4562-b3fc-2c963f66afa6 failed')).toBe('Order <uuid> failed');
+		expect(normalizeErrorMessage('bad pointer 0x7ffee4b2 in deadbeefcafe1234')).toBe('bad pointer <hex> in <hex>');
+		expect(normalizeErrorMessage(`Cannot find module 'lodash'  at  "x"`)).toBe('Cannot find module <str> at <str>');
+	});
+});
+
+describe('fingerprintError', () => {
+	it('groups messages that differ only in volatile tokens', () => {
+		expect(fingerprintError('TypeError', 'id 1 missing')).toBe(fingerprintError('TypeError', 'id 2 missing'));
+		expect(fingerprintError('TypeError', 'id 1 missing')).not.toBe(fingerprintError('RangeError', 'id 1 missing'));
+		expect(fingerprintError('TypeError')).toMatch(/^[0-9a-f]{16}$/);
+	});
+});
+
+describe('ErrorTracker', () => {
+	it('defaults missing types to unknown', () => {
+		const tracker = new ErrorTracker(10);
+		tracker.record({});
+		expect(tracker.byType()).toEqual([{ type: 'unknown', count: 1, percentage: 100 }]);
+	});
+
+	it('keeps the earliest first seen when events arrive out of order', () => {
+		const tracker = new ErrorTracker(10);
+		tracker.record({ type: 'E', message: 'job 2 failed' }, 2000);
+		tracker.record({ type: 'E', message: 'job 1 failed' }, 1000);
+		const [group] = tracker.topErrors();
+		expect(group).toMatchObject({
+			firstSeen: new Date(1000).toISOString(),
+			lastSeen: new Date(2000).toISOString(),
+			count: 2,
+			message: 'job 2 failed',
+		});
+	});
+
+	it('evicts the least recently seen groups beyond the limit', () => {
+		const tracker = new ErrorTracker(2);
+		tracker.record({ type: 'A' }, 1000);
+		tracker.record({ type: 'B' }, 2000);
+		tracker.record({ type: 'A' }, 3000);
+		tracker.record({ type: 'C' }, 4000);
+		expect(tracker.size).toBe(2);
+		expect(tracker.byType().map((t) => t.type).sort()).toEqual(['A', 'C']);
+	});
+
+	it('sums path counts across groups', () => {
+		const tracker = new ErrorTracker(10);
+		tracker.record({ type: 'A', path: '/x' });
+		tracker.record({ type: 'B', path: '/x' });
+		tracker.record({ type: 'B', path: '/y' });
+		expect(Object.fromEntries(tracker.byPath())).toEqual({ '/x': 2, '/y': 1 });
+	});
+
+	it('round-trips through serialize and restore', () => {
+		const tracker = new ErrorTracker(10, () => new HyperLogLog(10));
+		tracker.record({ type: 'A', path: '/x', status: 500, sessionId: 's1', message: 'boom' }, 1000);
+		const restored = new ErrorTracker(10, () => new HyperLogLog(10));
+		restored.restore(tracker.serialize());
+		restored.restore(tracker.serialize());
+
+		expect(restored.topErrors()[0]).toMatchObject({ type: 'A', count: 2, affectedSessions: 1, statuses: [500] });
+		expect(restored.serialize()[0].paths).toEqual([{ path: '/x', count: 2 }]);
+	});
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { configureMetrics, resetMetricsConfig } from '../src/config.js';
+import { EventStreamManager } from '../src/event-stream.js';
+import { createEventStreamResponse, getLastEventId } from '../src/event-stream-response.js';
+import { SseParser } from '../src/sse.js';
+import type { SseMessage } from '../src/sse.js';
+
+function openStream(response: Response) {
+	const reader = response.body!.getReader();
+	const decoder = new TextDecoder();
+	const parser = new SseParser();
+	const received: SseMessage[] = [];
+
+	return {
+		reader,
+		received,
+		async next(count: number): Promise<SseMessage[]> {
+			while (received.length < count) {
+				const { value, done } = await reader.read();
+				if (done) break;
+				received.push(...parser.push(decoder.decode(value, { stream: true })));
+			}
+			return received;
+		},
+	};
+}
+
+describe('createEventStreamResponse', () => {
+	beforeEach(() => {
+		resetMetricsConfig();
+		EventStreamManager.resetInstance();
+		configureMetrics({ eventHeartbeatIntervalMs: 0 });
+	});
+
+	afterEach(() => {
+		EventStreamManager.resetInstance();
+	});
+
+	it('returns an event stream response with SSE headers', () => {
+		const response = createEventStreamResponse(new Request('http://localhost/events'), {
+			headers: { 'cache-control': 'no-store', 'X-Custom': '1' },
+		});
+		expect(response.status).toBe(200);
+		expect(response.headers.get('content-type')).toBe('text/event-stream; charset=utf-8');
+		expect(response.headers.get('cache-control')).toBe('no-store');
+		expect(response.headers.get('x-custom')).toBe('1');
+		expect(response.headers.get('x-accel-buffering')).toBe('no');
+	});
+
+	it('registers the client and streams broadcasts as bytes', async () => {
+		const mgr = EventStreamManager.getInstance();
+		const response = createEventStreamResponse(new Request('http://localhost/events'), { clientId: 'c1' });
+		const stream = openStream(response);
+
+		await stream.next(1);
+		expect(mgr.getClientCount()).toBe(1);
+		mgr.broadcastAlert({ level: 'warn' });
+
+		const [connection, alert] = await stream.next(2);
+		expect(connection.event).toBe('connection');
+		expect(JSON.parse(connection.data!).clientId).toBe('c1');
+		expect(alert.event).toBe('alerts');
+		expect(alert.id).toBe(`${mgr.originId}-1`);
+		await stream.reader.cancel();
+	});
+
+	it('delivers the initial snapshot after connecting', async () => {
+		const response = createEventStreamResponse(new Request('http://localhost/events'), {
+			snapshot: async () => ({ pageViews: 3 }),
+		});
+		const [, snapshot] = await openStream(response).next(2);
+		expect(snapshot.event).toBe('metrics');
+		expect(JSON.parse(snapshot.data!).data).toEqual({ pageViews: 3 });
+	});
+
+	it('resumes from the Last-Event-ID header', async () => {
+		const mgr = EventStreamManager.getInstance();
+		mgr.broadcastAlert({ n: 1 });
+		mgr.broadcastAlert({ n: 2 });
+		const request = new Request('http://localhost/events', { headers: { 'Last-Event-ID': `${mgr.originId}-1` } });
+
+		const [, replayed] = await openStream(createEventStreamResponse(request)).next(2);
+		expect(replayed.id).toBe(`${mgr.originId}-2`);
+		expect(JSON.parse(replayed.data!).data).toEqual({ n: 2 });
+	});
+
+	it('applies the subscription to the client', async () => {
+		const mgr = EventStreamManager.getInstance();
+		const response = createEventStreamResponse(new Request('http://localhost/events'), {
+			subscription: { types: ['logs'] },
+		});
+		const stream = openStream(response);
+		await stream.next(1);
+
+		mgr.broadcastAlert({ level: 'warn' });
+		mgr.broadcastLogs([{ level: 'info' }]);
+		const received = await stream.next(2);
+		expect(received.map((message) => message.event)).toEqual(['connection', 'logs']);
+	});
+
+	it('removes the client when the request is aborted', async () => {
+		const mgr = EventStreamManager.getInstance();
+		const abort = new AbortController();
+		const onClose = vi.fn();
+		const response = createEventStreamResponse(new Request('http://localhost/events', { signal: abort.signal }), {
+			clientId: 'c1',
+			onClose,
+		});
+		const stream = openStream(response);
+		await stream.next(1);
+
+		abort.abort();
+		expect(mgr.getClientCount()).toBe(0);
+		expect(onClose).toHaveBeenCalledWith('c1');
+		expect((await stream.reader.read()).done).toBe(true);
+	});
+
+	it('removes the client when the body is cancelled', async () => {
+		const mgr = EventStreamManager.getInstance();
+		const onClose = vi.fn();
+		const response = createEventStreamResponse(new Request('http://localhost/events'), { onClose });
+		const stream = openStream(response);
+		await stream.next(1);
+
+		await stream.reader.cancel();
+		expect(mgr.getClientCount()).toBe(0);
+		expect(onClose).toHaveBeenCalledTimes(1);
+	});
+
+	it('never registers clients for already aborted requests', async () => {
+		const mgr = EventStreamManager.getInstance();
+		const request = new Request('http://localhost/events', { signal: AbortSignal.abort() });
+		const stream = openStream(createEventStreamResponse(request));
+
+		expect((await stream.reader.read()).done).toBe(true);
+		expect(mgr.getClientCount()).toBe(0);
+	});
+});
+
+describe('getLastEventId', () => {
+	it('prefers the header over the query parameter', () => {
+		const request = new Request('http://localhost/events?lastEventId=3', { headers: { 'Last-Event-ID': '7' } });
+		expect(getLastEventId(request)).toBe('7');
+	});
+
+	it('falls back to the lastEventId query parameter', () => {
+		expect(getLastEventId(new Request('http://localhost/events?lastEventId=3'))).toBe('3');
+		expect(getLastEventId(new Request('http://localhost/events'))).toBeNull();
+	});
+});
@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { resetMetricsConfig } from '../src/config.js';
-import { EventStreamManager, getEventStreamManager } from '../src/event-stream.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { configureMetrics, getMetricsConfig, resetMetricsConfig } from '../src/config.js';
+import { EventStreamManager, METRICS_DELTA, getEventStreamManager } from '../src/event-stream.js';
+import { parseSse } from '../src/sse.js';
 
 function createMockController() {
 	return {
@@ -11,6 +12,22 @@ function createMockController() {
 	} as unknown as ReadableStreamDefaultController;
 }
 
+function parseData(frame: string) {
+	return JSON.parse(parseSse(frame)[0].data!);
+}
+
+function allFrames(ctrl: ReadableStreamDefaultController): string[] {
+	return (ctrl.enqueue as ReturnType<typeof vi.fn>).mock.calls.map((call) => call[0] as string);
+}
+
+function eventId(mgr: EventStreamManager, seq: number): string {
+	return `${mgr.originId}-${seq}`;
+}
+
+function frames(ctrl: ReadableStreamDefaultController): string[] {
+	return allFrames(ctrl).filter((frame) => parseSse(frame)[0]?.event !== 'connection');
+}
+
 describe('EventStreamManager', () => {
 	beforeEach(() => {
 		resetMetricsConfig();
@@ -101,7 +118,7 @@ describe('EventStreamManager', () => {
 			const event = { type: 'metrics' as const, timestamp: 123, data: { foo: 1 } };
 			mgr.broadcast(event);
 
-			const expected = `data: ${JSON.stringify(event)}\n\n`;
+			const expected = `event: metrics\nid: ${eventId(mgr, 1)}\ndata: ${JSON.stringify(event)}\n\n`;
 			expect(ctrl1.enqueue).toHaveBeenCalledWith(expected);
 			expect(ctrl2.enqueue).toHaveBeenCalledWith(expected);
 		});
@@ -125,6 +142,483 @@ describe('EventStreamManager', () => {
 		});
 	});
 
+	describe('event ids and replay', () => {
+		function broadcastN(mgr: EventStreamManager, n: number): void {
+			for (let i = 0; i < n; i++) {
+				mgr.broadcast({ type: 'metrics', timestamp: i, data: i });
+			}
+		}
+
+		it('assigns monotonically increasing ids', () => {
+			const mgr = EventStreamManager.getInstance();
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl);
+			broadcastN(mgr, 3);
+			expect(frames(ctrl).map((f) => parseSse(f)[0].id)).toEqual([1, 2, 3].map((n) => eventId(mgr, n)));
+			expect(mgr.getLastEventId()).toBe(eventId(mgr, 3));
+		});
+
+		it('replays events missed since lastEventId before live ones', () => {
+			const mgr = EventStreamManager.getInstance();
+			broadcastN(mgr, 5);
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl, { lastEventId: eventId(mgr, 3) });
+			mgr.broadcast({ type: 'alerts', timestamp: 9 });
+
+			expect(frames(ctrl).map((f) => parseData(f).timestamp)).toEqual([3, 4, 9]);
+		});
+
+		it('replays nothing when the client is up to date', () => {
+			const mgr = EventStreamManager.getInstance();
+			broadcastN(mgr, 2);
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl, { lastEventId: eventId(mgr, 2) });
+			expect(frames(ctrl)).toEqual([]);
+		});
+
+		it('sends a reset event when the gap exceeds the buffer', () => {
+			configureMetrics({ eventReplayBufferSize: 3 });
+			const mgr = EventStreamManager.getInstance();
+			broadcastN(mgr, 10);
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl, { lastEventId: eventId(mgr, 5) });
+
+			expect(frames(ctrl)).toHaveLength(1);
+			expect(parseSse(frames(ctrl)[0])[0]).toMatchObject({ id: eventId(mgr, 10), event: 'reset' });
+			expect(parseData(frames(ctrl)[0])).toMatchObject({ type: 'reset', clientId: 'c1' });
+		});
+
+		it('replays exactly the buffered tail at the buffer boundary', () => {
+			configureMetrics({ eventReplayBufferSize: 3 });
+			const mgr = EventStreamManager.getInstance();
+			broadcastN(mgr, 10);
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl, { lastEventId: eventId(mgr, 7) });
+			expect(frames(ctrl).map((f) => parseSse(f)[0].id)).toEqual([8, 9, 10].map((n) => eventId(mgr, n)));
+		});
+
+		it('resets clients whose id is ahead of this server', () => {
+			const mgr = EventStreamManager.getInstance();
+			broadcastN(mgr, 2);
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl, { lastEventId: eventId(mgr, 500) });
+			expect(parseData(frames(ctrl)[0]).type).toBe('reset');
+		});
+
+		it('resets clients whose id comes from another process or replica', () => {
+			const previous = EventStreamManager.getInstance();
+			broadcastN(previous, 5);
+			EventStreamManager.resetInstance();
+			const mgr = EventStreamManager.getInstance();
+			broadcastN(mgr, 8);
+
+			for (const lastEventId of [eventId(previous, 5), '5']) {
+				const ctrl = createMockController();
+				mgr.addClient(lastEventId, ctrl, { lastEventId });
+				expect(frames(ctrl)).toHaveLength(1);
+				expect(parseSse(frames(ctrl)[0])[0]).toMatchObject({ id: eventId(mgr, 8), event: 'reset' });
+			}
+		});
+	});
+
+	describe('wire format', () => {
+		it('names each event after its type', () => {
+			const mgr = EventStreamManager.getInstance();
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl);
+			mgr.broadcastAlert({ level: 'critical' });
+			mgr.broadcastSystemStatus({ status: 'ok' });
+			expect(frames(ctrl).map((f) => parseSse(f)[0].event)).toEqual(['alerts', 'system']);
+		});
+
+		it('sends the configured retry hint with the connection event', () => {
+			configureMetrics({ eventRetryMs: 5000 });
+			const mgr = EventStreamManager.getInstance();
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl);
+			expect(parseSse(allFrames(ctrl)[0])[0]).toMatchObject({ event: 'connection', retry: 5000 });
+		});
+
+		it('omits the retry hint by default', () => {
+			const mgr = EventStreamManager.getInstance();
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl);
+			expect(allFrames(ctrl)[0]).not.toContain('retry:');
+		});
+	});
+
+	describe('subscriptions', () => {
+		it('delivers only subscribed event types', () => {
+			const mgr = EventStreamManager.getInstance();
+			const widget = createMockController();
+			mgr.addClient('widget', widget, { subscription: { types: ['metrics', 'system'] } });
+			mgr.broadcastLogs([{ level: 'info', msg: 'internal' }]);
+			mgr.broadcastMetrics({ cpu: 1 });
+			mgr.broadcastSystemStatus({ status: 'ok' });
+
+			expect(frames(widget).map((f) => parseSse(f)[0].event)).toEqual(['metrics', 'system']);
+		});
+
+		it('filters alerts by severity', () => {
+			const mgr = EventStreamManager.getInstance();
+			const pager = createMockController();
+			mgr.addClient('pager', pager, { subscription: { alertSeverities: ['critical'] } });
+			mgr.broadcastAlert({ severity: 'warning' });
+			mgr.broadcastAlert({ level: 'critical' });
+
+			expect(frames(pager).map((f) => parseData(f).data)).toEqual([{ level: 'critical' }]);
+		});
+
+		it('narrows log batches to the subscribed levels and keeps event ids', () => {
+			const mgr = EventStreamManager.getInstance();
+			const viewer = createMockController();
+			mgr.addClient('viewer', viewer, { subscription: { logLevels: ['error'] } });
+			mgr.broadcastLogs([{ level: 'info' }, { level: 'error', msg: 'boom' }]);
+			mgr.broadcastLogs([{ level: 'debug' }]);
+
+			const [message] = parseSse(frames(viewer)[0]);
+			expect(frames(viewer)).toHaveLength(1);
+			expect(message.id).toBe(eventId(mgr, 1));
+			expect(JSON.parse(message.data!).data).toEqual([{ level: 'error', msg: 'boom' }]);
+		});
+
+		it('applies custom predicates and subscriptions during replay', () => {
+			const mgr = EventStreamManager.getInstance();
+			mgr.broadcastMetrics({ cpu: 10 });
+			mgr.broadcastMetrics({ cpu: 95 });
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl, {
+				lastEventId: eventId(mgr, 0),
+				subscription: {
+					filter: (event) => (event.data as { cpu: number }).cpu > 90,
+				},
+			});
+
+			expect(frames(ctrl).map((f) => parseData(f).data)).toEqual([{ cpu: 95 }]);
+		});
+
+		it('always delivers reset events', () => {
+			configureMetrics({ eventReplayBufferSize: 1 });
+			const mgr = EventStreamManager.getInstance();
+			mgr.broadcastMetrics({});
+			mgr.broadcastMetrics({});
+			mgr.broadcastMetrics({});
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl, { lastEventId: eventId(mgr, 0), subscription: { types: ['alerts'] } });
+
+			expect(parseData(frames(ctrl)[0]).type).toBe('reset');
+		});
+
+		it('updates a subscription for a connected client', () => {
+			const mgr = EventStreamManager.getInstance();
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl, { subscription: { types: ['alerts'] } });
+			expect(mgr.setSubscription('c1', undefined)).toBe(true);
+			expect(mgr.setSubscription('missing', undefined)).toBe(false);
+			mgr.broadcastMetrics({});
+			expect(frames(ctrl)).toHaveLength(1);
+		});
+
+		it('sends to a single client without an id', () => {
+			const mgr = EventStreamManager.getInstance();
+			const target = createMockController();
+			const other = createMockController();
+			mgr.addClient('target', target);
+			mgr.addClient('other', other);
+
+			expect(mgr.sendToClient('target', { type: 'system', timestamp: 1, message: 'hi' })).toBe(true);
+			expect(mgr.sendToClient('missing', { type: 'system', timestamp: 1 })).toBe(false);
+			expect(parseSse(frames(target)[0])[0]).toMatchObject({ event: 'system', id: '' });
+			expect(frames(other)).toEqual([]);
+			expect(mgr.getLastEventId()).toBe(eventId(mgr, 0));
+		});
+	});
+
+	describe('connection and heartbeat', () => {
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		function controllerWithDesiredSize(desiredSize: number) {
+			return { ...createMockController(), desiredSize } as unknown as ReadableStreamDefaultController;
+		}
+
+		it('sends a connection event before replayed events', () => {
+			const mgr = EventStreamManager.getInstance();
+			mgr.broadcastAlert({ level: 'warn' });
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl, { lastEventId: eventId(mgr, 0) });
+
+			const [connection, replayed] = allFrames(ctrl).map((f) => parseSse(f)[0]);
+			expect(connection.event).toBe('connection');
+			expect(JSON.parse(connection.data!)).toMatchObject({ type: 'connection', clientId: 'c1' });
+			expect(connection.id).toBe('');
+			expect(replayed.event).toBe('alerts');
+		});
+
+		it('sends comment heartbeats to idle clients on a timer', () => {
+			vi.useFakeTimers();
+			configureMetrics({ eventHeartbeatIntervalMs: 1000 });
+			const mgr = EventStreamManager.getInstance();
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl);
+
+			vi.advanceTimersByTime(1000);
+			expect(allFrames(ctrl).at(-1)).toBe(': heartbeat\n\n');
+			mgr.removeClient('c1');
+		});
+
+		it('sends heartbeat events when configured', () => {
+			configureMetrics({ eventHeartbeatIntervalMs: 1000, eventHeartbeatMode: 'event' });
+			const mgr = EventStreamManager.getInstance();
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl);
+
+			mgr.checkClients(Date.now() + 1000);
+			const heartbeat = parseSse(allFrames(ctrl).at(-1)!)[0];
+			expect(heartbeat.event).toBe('heartbeat');
+			expect(heartbeat.id).toBe('');
+			mgr.stopHeartbeat();
+		});
+
+		it('skips heartbeats for clients that were written to recently', () => {
+			configureMetrics({ eventHeartbeatIntervalMs: 1000 });
+			const mgr = EventStreamManager.getInstance();
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl);
+
+			mgr.checkClients(Date.now() + 500);
+			expect(allFrames(ctrl)).toHaveLength(1);
+			mgr.stopHeartbeat();
+		});
+
+		it('evicts clients that stay backpressured past the timeout', () => {
+			vi.useFakeTimers();
+			configureMetrics({ eventHeartbeatIntervalMs: 1000, eventClientTimeoutMs: 5000 });
+			const mgr = EventStreamManager.getInstance();
+			const slow = controllerWithDesiredSize(0);
+			mgr.addClient('slow', slow);
+			mgr.addClient('fast', createMockController());
+
+			vi.advanceTimersByTime(5000);
+			expect(mgr.getClientCount()).toBe(2);
+			vi.advanceTimersByTime(1000);
+			expect(mgr.getClientCount()).toBe(1);
+			expect(slow.close).toHaveBeenCalled();
+			mgr.stopHeartbeat();
+		});
+
+		it('evicts clients that have not been written to within the timeout', () => {
+			configureMetrics({ eventHeartbeatIntervalMs: 10000, eventClientTimeoutMs: 5000 });
+			const mgr = EventStreamManager.getInstance();
+			mgr.addClient('c1', createMockController());
+
+			mgr.checkClients(Date.now() + 5000);
+			expect(mgr.getClientCount()).toBe(0);
+		});
+
+		it('stops the heartbeat timer when the last client leaves', () => {
+			const clearSpy = vi.spyOn(global, 'clearInterval');
+			const mgr = EventStreamManager.getInstance();
+			mgr.addClient('c1', createMockController());
+			mgr.removeClient('c1');
+			expect(clearSpy).toHaveBeenCalled();
+		});
+	});
+
+	describe('backpressure', () => {
+		function setDesiredSize(ctrl: ReadableStreamDefaultController, desiredSize: number) {
+			(ctrl as { desiredSize: number }).desiredSize = desiredSize;
+		}
+
+		function saturate(ctrl: ReadableStreamDefaultController) {
+			setDesiredSize(ctrl, -getMetricsConfig().eventClientQueueSize - 1);
+		}
+
+		async function readEvents(stream: ReadableStream<string>, count: number): Promise<string[]> {
+			const reader = stream.getReader();
+			const events: string[] = [];
+			while (events.length < count) {
+				const { value } = await reader.read();
+				events.push(parseSse(value!)[0].event!);
+			}
+			reader.releaseLock();
+			return events;
+		}
+
+		function eventTypes(ctrl: ReadableStreamDefaultController): string[] {
+			return frames(ctrl).map((frame) => parseSse(frame)[0].event!);
+		}
+
+		it('keeps writing into the controller queue until it passes the queue size', () => {
+			configureMetrics({ eventClientQueueSize: 2 });
+			const mgr = EventStreamManager.getInstance();
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl);
+			setDesiredSize(ctrl, -2);
+
+			mgr.broadcastAlert({ n: 1 });
+			expect(frames(ctrl)).toHaveLength(1);
+			expect(mgr.getClientStats('c1')!.queueDepth).toBe(0);
+			mgr.stopHeartbeat();
+		});
+
+		it('streams through a route-built ReadableStream without a pull handler', async () => {
+			const mgr = EventStreamManager.getInstance();
+			const stream = new ReadableStream<string>({
+				start(controller) {
+					mgr.addClient('c1', controller);
+				},
+			});
+
+			mgr.broadcastAlert({ n: 1 });
+			mgr.broadcastLogs([{ level: 'info' }]);
+			mgr.broadcastAlert({ n: 2 });
+			expect(mgr.getClientStats('c1')!.queueDepth).toBe(0);
+			expect(await readEvents(stream, 4)).toEqual(['connection', 'alerts', 'logs', 'alerts']);
+
+			mgr.broadcastAlert({ n: 3 });
+			expect(await readEvents(stream, 1)).toEqual(['alerts']);
+			mgr.removeClient('c1');
+		});
+
+		it('drains held frames into a real stream once the consumer catches up', async () => {
+			configureMetrics({ eventClientQueueSize: 1 });
+			const mgr = EventStreamManager.getInstance();
+			const stream = new ReadableStream<string>({
+				start(controller) {
+					mgr.addClient('c1', controller);
+				},
+			});
+
+			mgr.broadcastAlert({ n: 1 });
+			mgr.broadcastAlert({ n: 2 });
+			mgr.broadcastAlert({ n: 3 });
+			expect(mgr.getClientStats('c1')).toMatchObject({ queueDepth: 1, dropped: 0 });
+
+			expect(await readEvents(stream, 3)).toEqual(['connection', 'alerts', 'alerts']);
+			mgr.checkClients();
+			expect(mgr.getClientStats('c1')!.queueDepth).toBe(0);
+			expect(await readEvents(stream, 1)).toEqual(['alerts']);
+			mgr.removeClient('c1');
+		});
+
+		it('holds frames while the client is backpressured and flushes them in order', () => {
+			const mgr = EventStreamManager.getInstance();
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl);
+			saturate(ctrl);
+
+			mgr.broadcastAlert({ level: 'warn' });
+			mgr.broadcastLogs([{ level: 'info' }]);
+			expect(frames(ctrl)).toHaveLength(0);
+			expect(mgr.getClientStats('c1')).toMatchObject({ queueDepth: 2, dropped: 0, desiredSize: -101 });
+
+			setDesiredSize(ctrl, 1);
+			expect(mgr.flushClient('c1')).toBe(true);
+			expect(eventTypes(ctrl)).toEqual(['alerts', 'logs']);
+			expect(mgr.getClientStats('c1')!.queueDepth).toBe(0);
+			mgr.stopHeartbeat();
+		});
+
+		it('drops the oldest queued frames beyond the queue size', () => {
+			configureMetrics({ eventClientQueueSize: 2 });
+			const mgr = EventStreamManager.getInstance();
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl);
+			saturate(ctrl);
+
+			mgr.broadcastAlert({ n: 1 });
+			mgr.broadcastAlert({ n: 2 });
+			mgr.broadcastAlert({ n: 3 });
+			expect(mgr.getClientStats('c1')).toMatchObject({ queueDepth: 2, dropped: 1 });
+
+			setDesiredSize(ctrl, 1);
+			mgr.broadcastAlert({ n: 4 });
+			expect(frames(ctrl).map((frame) => parseData(frame).data.n)).toEqual([2, 3, 4]);
+			expect(mgr.getBackpressureStats()).toEqual({ queued: 0, dropped: 1, coalesced: 0, disconnected: 0 });
+			mgr.stopHeartbeat();
+		});
+
+		it('coalesces queued metrics to the latest snapshot', () => {
+			configureMetrics({ eventSlowClientPolicy: 'coalesce' });
+			const mgr = EventStreamManager.getInstance();
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl);
+			saturate(ctrl);
+
+			mgr.broadcastMetrics({ n: 1 });
+			mgr.broadcastAlert({ level: 'warn' });
+			mgr.broadcastMetrics({ n: 2 });
+			mgr.broadcastMetrics({ n: 3 });
+			expect(mgr.getClientStats('c1')).toMatchObject({ queueDepth: 2, coalesced: 2, dropped: 0 });
+
+			setDesiredSize(ctrl, 1);
+			mgr.flushClient('c1');
+			expect(eventTypes(ctrl)).toEqual(['alerts', 'metrics']);
+			expect(parseData(frames(ctrl)[1]).data).toEqual({ n: 3 });
+			mgr.stopHeartbeat();
+		});
+
+		it('keeps queued metric deltas until a full snapshot supersedes them', () => {
+			configureMetrics({ eventSlowClientPolicy: 'coalesce' });
+			const mgr = EventStreamManager.getInstance();
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl);
+			saturate(ctrl);
+
+			mgr.broadcastMetrics({ n: 1 });
+			mgr.broadcast({ type: 'metrics', timestamp: Date.now(), message: METRICS_DELTA, data: { n: 2 } });
+			expect(mgr.getClientStats('c1')).toMatchObject({ queueDepth: 2, coalesced: 0 });
+			mgr.broadcastMetrics({ n: 3 });
+			expect(mgr.getClientStats('c1')).toMatchObject({ queueDepth: 1, coalesced: 2 });
+			mgr.stopHeartbeat();
+		});
+
+		it('disconnects clients that overflow their queue', () => {
+			configureMetrics({ eventClientQueueSize: 1 });
+			const mgr = EventStreamManager.getInstance();
+			const slow = createMockController();
+			const fast = createMockController();
+			mgr.addClient('slow', slow, { slowClientPolicy: 'disconnect' });
+			mgr.addClient('fast', fast);
+			saturate(slow);
+
+			mgr.broadcastAlert({ n: 1 });
+			expect(mgr.getClientCount()).toBe(2);
+			mgr.broadcastAlert({ n: 2 });
+			expect(mgr.getClientCount()).toBe(1);
+			expect(slow.close).toHaveBeenCalled();
+			expect(frames(fast)).toHaveLength(2);
+			expect(mgr.getBackpressureStats().disconnected).toBe(1);
+			mgr.stopHeartbeat();
+		});
+
+		it('drains queued frames on the heartbeat tick', () => {
+			configureMetrics({ eventHeartbeatIntervalMs: 1000 });
+			const mgr = EventStreamManager.getInstance();
+			const ctrl = createMockController();
+			mgr.addClient('c1', ctrl);
+			saturate(ctrl);
+			mgr.broadcastAlert({ level: 'warn' });
+
+			setDesiredSize(ctrl, 1);
+			mgr.checkClients(Date.now() + 1000);
+			expect(eventTypes(ctrl)).toEqual(['alerts']);
+			expect(allFrames(ctrl).at(-1)).not.toBe(': heartbeat\n\n');
+			mgr.stopHeartbeat();
+		});
+
+		it('lists stats for every connected client', () => {
+			const mgr = EventStreamManager.getInstance();
+			mgr.addClient('c1', createMockController());
+			mgr.addClient('c2', createMockController());
+			expect(mgr.getClientStats().map((stats) => stats.clientId)).toEqual(['c1', 'c2']);
+			expect(mgr.getClientStats('missing')).toBeUndefined();
+			mgr.stopHeartbeat();
+		});
+	});
+
 	describe('broadcastMetrics', () => {
 		it('sends metrics event with correct type', () => {
 			const mgr = EventStreamManager.getInstance();
@@ -133,8 +627,8 @@ describe('EventStreamManager', () => {
 
 			mgr.broadcastMetrics({ cpu: 50 });
 
-			const call = (ctrl.enqueue as ReturnType<typeof vi.fn>).mock.calls[0][0];
-			const parsed = JSON.parse(call.replace('data: ', '').trim());
+			const call = frames(ctrl)[0];
+			const parsed = parseData(call);
 			expect(parsed.type).toBe('metrics');
 			expect(parsed.data).toEqual({ cpu: 50 });
 			expect(parsed.timestamp).toBeTypeOf('number');
@@ -149,8 +643,8 @@ describe('EventStreamManager', () => {
 
 			mgr.broadcastLogs([{ msg: 'hello' }]);
 
-			const call = (ctrl.enqueue as ReturnType<typeof vi.fn>).mock.calls[0][0];
-			const parsed = JSON.parse(call.replace('data: ', '').trim());
+			const call = frames(ctrl)[0];
+			const parsed = parseData(call);
 			expect(parsed.type).toBe('logs');
 			expect(parsed.data).toEqual([{ msg: 'hello' }]);
 		});
@@ -164,8 +658,8 @@ describe('EventStreamManager', () => {
 
 			mgr.broadcastAlert({ level: 'critical' });
 
-			const call = (ctrl.enqueue as ReturnType<typeof vi.fn>).mock.calls[0][0];
-			const parsed = JSON.parse(call.replace('data: ', '').trim());
+			const call = frames(ctrl)[0];
+			const parsed = parseData(call);
 			expect(parsed.type).toBe('alerts');
 			expect(parsed.data).toEqual({ level: 'critical' });
 		});
@@ -179,8 +673,8 @@ describe('EventStreamManager', () => {
 
 			mgr.broadcastSystemStatus({ status: 'healthy' });
 
-			const call = (ctrl.enqueue as ReturnType<typeof vi.fn>).mock.calls[0][0];
-			const parsed = JSON.parse(call.replace('data: ', '').trim());
+			const call = frames(ctrl)[0];
+			const parsed = parseData(call);
 			expect(parsed.type).toBe('system');
 			expect(parsed.data).toEqual({ status: 'healthy' });
 		});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { resetMetricsConfig } from '../src/config.js';
+import { EventStreamManager } from '../src/event-stream.js';
+import { InProcessTransport, UnixSocketTransport } from '../src/event-transport.js';
+import type { TransportMessage } from '../src/event-transport.js';
+import type { RealtimeEvent } from '../src/types.js';
+
+function createMockController() {
+	return {
+		enqueue: vi.fn(),
+		close: vi.fn(),
+		desiredSize: 1,
+		error: vi.fn(),
+	} as unknown as ReadableStreamDefaultController;
+}
+
+function createManager(): EventStreamManager {
+	EventStreamManager.resetInstance();
+	return EventStreamManager.getInstance();
+}
+
+const alert: RealtimeEvent = { type: 'alerts', timestamp: 1, data: { level: 'critical' } };
+
+describe('EventStreamManager with a transport', () => {
+	beforeEach(() => {
+		resetMetricsConfig();
+	});
+
+	it('delivers broadcasts to clients connected to peer managers', () => {
+		const a = createManager();
+		const b = createManager();
+		a.setTransport(new InProcessTransport('fanout'));
+		b.setTransport(new InProcessTransport('fanout'));
+		const local = createMockController();
+		const remote = createMockController();
+		a.addClient('local', local);
+		b.addClient('remote', remote);
+
+		a.broadcast(alert);
+		expect(local.enqueue).toHaveBeenCalledTimes(2);
+		expect(remote.enqueue).toHaveBeenLastCalledWith(`event: alerts\nid: ${b.originId}-1\ndata: ${JSON.stringify(alert)}\n\n`);
+	});
+
+	it('does not re-deliver its own or relayed events', () => {
+		const a = createManager();
+		const b = createManager();
+		const transportA = new InProcessTransport('loop');
+		const transportB = new InProcessTransport('loop');
+		a.setTransport(transportA);
+		b.setTransport(transportB);
+		const publish = vi.spyOn(transportB, 'publish');
+		const local = createMockController();
+		a.addClient('local', local);
+
+		a.broadcast(alert);
+		expect(local.enqueue).toHaveBeenCalledTimes(2);
+		expect(publish).not.toHaveBeenCalled();
+	});
+
+	it('stops receiving after the transport is removed', () => {
+		const a = createManager();
+		const b = createManager();
+		a.setTransport(new InProcessTransport('detach'));
+		b.setTransport(new InProcessTransport('detach'));
+		const remote = createMockController();
+		b.addClient('remote', remote);
+		b.setTransport(null);
+
+		a.broadcast(alert);
+		expect(remote.enqueue).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('InProcessTransport', () => {
+	it('isolates channels', () => {
+		const handler = vi.fn();
+		new InProcessTransport('one').subscribe(handler);
+		new InProcessTransport('two').publish({ origin: 'x', event: alert });
+		expect(handler).not.toHaveBeenCalled();
+	});
+});
+
+describe('UnixSocketTransport', () => {
+	let dir: string;
+	let transports: UnixSocketTransport[];
+
+	beforeEach(async () => {
+		resetMetricsConfig();
+		dir = await mkdtemp(join(tmpdir(), 'tinyland-ipc-'));
+		transports = [];
+	});
+
+	afterEach(async () => {
+		for (const transport of transports) await transport.close();
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	async function open(path: string): Promise<{ transport: UnixSocketTransport; received: TransportMessage[] }> {
+		const transport = new UnixSocketTransport(path, { reconnectDelayMs: 10 });
+		transports.push(transport);
+		const received: TransportMessage[] = [];
+		transport.subscribe((message) => received.push(message));
+		await transport.start();
+		return { transport, received };
+	}
+
+	it('relays messages between the hub and every peer', async () => {
+		const path = join(dir, 'events.sock');
+		const hub = await open(path);
+		const peer1 = await open(path);
+		const peer2 = await open(path);
+		expect([hub.transport.role, peer1.transport.role, peer2.transport.role]).toEqual(['hub', 'peer', 'peer']);
+
+		peer1.transport.publish({ origin: 'peer1', event: alert });
+		await vi.waitFor(() => {
+			expect(hub.received).toHaveLength(1);
+			expect(peer2.received).toHaveLength(1);
+		});
+		expect(peer1.received).toHaveLength(0);
+
+		hub.transport.publish({ origin: 'hub', event: alert });
+		await vi.waitFor(() => {
+			expect(peer1.received.map((m) => m.origin)).toEqual(['hub']);
+			expect(peer2.received.map((m) => m.origin)).toEqual(['peer1', 'hub']);
+		});
+	});
+
+	it('promotes a peer to hub when the hub goes away', async () => {
+		const path = join(dir, 'failover.sock');
+		const hub = await open(path);
+		const peer1 = await open(path);
+		const peer2 = await open(path);
+
+		await hub.transport.close();
+		await vi.waitFor(() => {
+			expect([peer1.transport.role, peer2.transport.role].sort()).toEqual(['hub', 'peer']);
+		});
+
+		peer1.transport.publish({ origin: 'peer1', event: alert });
+		await vi.waitFor(() => expect(peer2.received).toHaveLength(1));
+	});
+
+	it('elects a single hub when two peers take over a stale socket at once', async () => {
+		const path = join(dir, 'stale.sock');
+		await writeFile(path, '');
+		const [first, second] = await Promise.all([open(path), open(path)]);
+		expect([first.transport.role, second.transport.role].sort()).toEqual(['hub', 'peer']);
+
+		first.transport.publish({ origin: 'first', event: alert });
+		second.transport.publish({ origin: 'second', event: alert });
+		await vi.waitFor(() => {
+			expect(first.received.map((m) => m.origin)).toEqual(['second']);
+			expect(second.received.map((m) => m.origin)).toEqual(['first']);
+		});
+	});
+});
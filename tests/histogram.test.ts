@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_DURATION_BUCKETS_MS, DurationHistogram } from '../src/histogram.js';
+
+describe('DurationHistogram', () => {
+	it('uses default bucket boundaries', () => {
+		const h = new DurationHistogram();
+		expect(h.snapshot().buckets.map((b) => b.le)).toEqual(DEFAULT_DURATION_BUCKETS_MS);
+	});
+
+	it('sorts and deduplicates bucket boundaries', () => {
+		const h = new DurationHistogram([50, 10, 50, 100]);
+		expect(h.snapshot().buckets.map((b) => b.le)).toEqual([10, 50, 100]);
+	});
+
+	it('reports cumulative bucket counts', () => {
+		const h = new DurationHistogram([10, 100]);
+		h.observe(5);
+		h.observe(10);
+		h.observe(50);
+		h.observe(5000);
+		const snap = h.snapshot();
+		expect(snap.buckets).toEqual([
+			{ le: 10, count: 2 },
+			{ le: 100, count: 3 },
+		]);
+		expect(snap.count).toBe(4);
+		expect(snap.sum).toBe(5065);
+	});
+
+	it('ignores negative and non-finite values', () => {
+		const h = new DurationHistogram([10]);
+		h.observe(-1);
+		h.observe(NaN);
+		h.observe(Infinity);
+		expect(h.snapshot().count).toBe(0);
+	});
+
+	it('returns 0 for quantiles of an empty histogram', () => {
+		expect(new DurationHistogram().quantile(0.5)).toBe(0);
+	});
+
+	it('interpolates quantiles within a bucket', () => {
+		const h = new DurationHistogram([100, 200]);
+		for (let i = 0; i < 10; i++) h.observe(150);
+		expect(h.quantile(0.5)).toBe(150);
+		expect(h.quantile(1)).toBe(200);
+	});
+
+	it('caps quantiles that fall beyond the last bucket', () => {
+		const h = new DurationHistogram([10, 100]);
+		h.observe(5000);
+		expect(h.quantile(0.99)).toBe(100);
+	});
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+	HyperLogLog,
+	mergeVisitors,
+	restoreVisitors,
+	serializeVisitors,
+} from '../src/hyperloglog.js';
+
+function fill(sketch: HyperLogLog, from: number, to: number): HyperLogLog {
+	for (let i = from; i < to; i++) sketch.add(`session-${i}`);
+	return sketch;
+}
+
+describe('HyperLogLog', () => {
+	it('counts small cardinalities exactly enough', () => {
+		const sketch = fill(new HyperLogLog(), 0, 50);
+		expect(sketch.size).toBe(50);
+	});
+
+	it('ignores duplicates', () => {
+		const sketch = new HyperLogLog();
+		sketch.add('a').add('a').add('b');
+		expect(sketch.size).toBe(2);
+	});
+
+	it('estimates large cardinalities within a few percent', () => {
+		const sketch = fill(new HyperLogLog(12), 0, 20000);
+		expect(Math.abs(sketch.size - 20000) / 20000).toBeLessThan(0.05);
+	});
+
+	it('merges sketches as a set union', () => {
+		const a = fill(new HyperLogLog(12), 0, 6000);
+		const b = fill(new HyperLogLog(12), 4000, 10000);
+		const union = fill(new HyperLogLog(12), 0, 10000);
+		expect(a.clone().merge(b).size).toBe(union.size);
+	});
+
+	it('refuses to merge sketches of different precision', () => {
+		expect(() => new HyperLogLog(10).merge(new HyperLogLog(12))).toThrow(/precision/);
+	});
+
+	it('folds registers down to a lower precision', () => {
+		for (const count of [10, 5000]) {
+			const folded = fill(new HyperLogLog(14), 0, count).fold(12);
+			expect(folded.precision).toBe(12);
+			expect(folded.toJSON()).toEqual(fill(new HyperLogLog(12), 0, count).toJSON());
+		}
+		expect(() => new HyperLogLog(12).fold(14)).toThrow(/precision 12 up to 14/);
+	});
+
+	it('rejects out-of-range precision', () => {
+		expect(() => new HyperLogLog(3)).toThrow();
+		expect(() => new HyperLogLog(17)).toThrow();
+	});
+
+	it('serializes small sketches sparsely and large ones as registers', () => {
+		const small = fill(new HyperLogLog(12), 0, 10).toJSON();
+		expect(small.sparse).toHaveLength(10);
+		expect(small.registers).toBeUndefined();
+
+		const large = fill(new HyperLogLog(12), 0, 5000).toJSON();
+		expect(large.sparse).toBeUndefined();
+		expect(Buffer.from(large.registers!, 'base64')).toHaveLength(4096);
+	});
+
+	it('round-trips through JSON', () => {
+		for (const count of [10, 5000]) {
+			const sketch = fill(new HyperLogLog(12), 0, count);
+			const restored = HyperLogLog.fromJSON(JSON.parse(JSON.stringify(sketch)));
+			expect(restored.size).toBe(sketch.size);
+		}
+	});
+});
+
+describe('visitor set helpers', () => {
+	it('unions exact sets in place', () => {
+		const target = new Set(['a']);
+		expect(mergeVisitors(target, new Set(['a', 'b']))).toBe(target);
+		expect(target.size).toBe(2);
+	});
+
+	it('promotes an exact set to a sketch when merging a sketch into it', () => {
+		const sketch = new HyperLogLog().add('a');
+		const merged = mergeVisitors(new Set(['b']), sketch);
+		expect(merged).toBeInstanceOf(HyperLogLog);
+		expect(merged.size).toBe(2);
+		expect(sketch.size).toBe(1);
+	});
+
+	it('serializes and restores both representations', () => {
+		expect(serializeVisitors(new Set(['a']))).toEqual(['a']);
+		const restored = restoreVisitors(
+			serializeVisitors(new HyperLogLog().add('a')),
+			() => new Set<string>(),
+		);
+		expect(restored).toBeInstanceOf(HyperLogLog);
+		expect(restoreVisitors(['a', 'b'], () => new HyperLogLog()).size).toBe(2);
+	});
+
+	it('restores and merges sketches at the lower of two precisions', () => {
+		const stored = serializeVisitors(fill(new HyperLogLog(14), 0, 100));
+		const restored = restoreVisitors(stored, () => new HyperLogLog(12)) as HyperLogLog;
+		expect(restored.precision).toBe(12);
+
+		const merged = mergeVisitors(fill(new HyperLogLog(12), 50, 150), fill(new HyperLogLog(14), 0, 100));
+		expect((merged as HyperLogLog).precision).toBe(12);
+		expect(merged.size).toBe(fill(new HyperLogLog(12), 0, 150).size);
+		expect((mergeVisitors(fill(new HyperLogLog(14), 0, 10), restored) as HyperLogLog).precision).toBe(12);
+	});
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { appendFile, mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { configureMetrics, resetMetricsConfig } from '../src/config.js';
+import { EventJournal } from '../src/journal.js';
+import { MetricsCollector } from '../src/metrics-collector.js';
+import { MemoryStore } from '../src/store.js';
+
+describe('EventJournal', () => {
+	let dir: string;
+	let file: string;
+
+	beforeEach(async () => {
+		resetMetricsConfig();
+		dir = await mkdtemp(join(tmpdir(), 'tinyland-journal-'));
+		file = join(dir, 'nested', 'events.ndjson');
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it('appends sequenced NDJSON lines', async () => {
+		const journal = new EventJournal(file);
+		await journal.open();
+		journal.append({ type: 'pageView', at: 1, sessionId: 's1', path: '/a' });
+		journal.append({ type: 'error', at: 2 });
+		await journal.flush();
+
+		const lines = (await readFile(file, 'utf-8')).trim().split('\n');
+		expect(lines.map((line) => JSON.parse(line).seq)).toEqual([1, 2]);
+		expect(journal.lastSeq).toBe(2);
+	});
+
+	it('sequences events appended before open after the existing entries', async () => {
+		const first = new EventJournal(file);
+		await first.open();
+		first.append({ type: 'error', at: 1 });
+		await first.flush();
+
+		const second = new EventJournal(file);
+		second.append({ type: 'error', at: 2 });
+		const existing = await second.open();
+		await second.flush();
+
+		expect(existing.map((event) => event.seq)).toEqual([1]);
+		expect((await second.read()).map((event) => event.seq)).toEqual([1, 2]);
+	});
+
+	it('skips torn or invalid lines', async () => {
+		const journal = new EventJournal(file);
+		await journal.open();
+		journal.append({ type: 'error', at: 1 });
+		await journal.flush();
+		await appendFile(file, '{"seq":2,"type":"pageV');
+
+		expect(await journal.read()).toHaveLength(1);
+	});
+
+	it('compacts away entries covered by a snapshot', async () => {
+		const journal = new EventJournal(file);
+		await journal.open();
+		journal.append({ type: 'error', at: 1 });
+		journal.append({ type: 'error', at: 2 });
+		journal.append({ type: 'error', at: 3 });
+		await journal.compact(2);
+
+		expect((await journal.read()).map((event) => event.seq)).toEqual([3]);
+	});
+
+	it('keeps numbering after the compacted or snapshotted sequence', async () => {
+		const first = new EventJournal(file);
+		await first.open();
+		first.append({ type: 'error', at: 1 });
+		first.append({ type: 'error', at: 2 });
+		await first.compact(2);
+
+		const reopened = new EventJournal(file);
+		expect(await reopened.open()).toEqual([]);
+		reopened.append({ type: 'error', at: 3 });
+		expect(reopened.lastSeq).toBe(3);
+
+		const seeded = new EventJournal(join(dir, 'other.ndjson'));
+		await seeded.open(40);
+		seeded.append({ type: 'error', at: 4 });
+		expect(seeded.lastSeq).toBe(41);
+	});
+});
+
+describe('MetricsCollector with an event journal', () => {
+	let dir: string;
+
+	async function shutdown(...collectors: MetricsCollector[]): Promise<void> {
+		for (const collector of collectors) {
+			collector.destroy();
+			await collector.persistData();
+		}
+	}
+
+	beforeEach(async () => {
+		resetMetricsConfig();
+		dir = await mkdtemp(join(tmpdir(), 'tinyland-journal-'));
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it('replays events tracked after the last snapshot', async () => {
+		const store = new MemoryStore();
+		configureMetrics({ dataDir: dir, store, journal: true });
+
+		const crashed = await MetricsCollector.create();
+		crashed.trackPageView('s1', '/a');
+		await crashed.persistData();
+		crashed.trackPageView('s1', '/b');
+		crashed.trackError('s1');
+		await vi.waitFor(async () => {
+			expect(await new EventJournal(join(dir, 'events.ndjson')).read()).toHaveLength(2);
+		});
+
+		const restarted = await MetricsCollector.create();
+		const metrics = restarted.getMetrics();
+		expect(metrics.pageViews).toBe(2);
+		expect(metrics.totalErrors).toBe(1);
+		expect(restarted.getSessionMetrics('s1')!.pages).toEqual(['/a', '/b']);
+		await shutdown(crashed, restarted);
+	});
+
+	it('keeps events tracked after a restart that followed compaction', async () => {
+		const store = new MemoryStore();
+		configureMetrics({ dataDir: dir, store, journal: true });
+
+		const first = await MetricsCollector.create();
+		for (let i = 0; i < 5; i++) first.trackPageView(`s${i}`, '/a');
+		await first.persistData();
+
+		const crashed = await MetricsCollector.create();
+		crashed.trackPageView('s5', '/a');
+		crashed.trackPageView('s6', '/a');
+		await vi.waitFor(async () => {
+			expect(await new EventJournal(join(dir, 'events.ndjson')).read()).toHaveLength(2);
+		});
+
+		const restarted = await MetricsCollector.create();
+		expect(restarted.getMetrics().pageViews).toBe(7);
+		await shutdown(first, crashed, restarted);
+	});
+
+	it('journals events while persisted metrics cannot be loaded', async () => {
+		const store = new MemoryStore();
+		configureMetrics({ dataDir: dir, store, journal: true });
+		const first = await MetricsCollector.create();
+		for (let i = 0; i < 3; i++) first.trackPageView(`s${i}`, '/a');
+		await first.persistData();
+
+		vi.spyOn(store, 'load').mockRejectedValueOnce(new Error('EACCES'));
+		const failed = await MetricsCollector.create();
+		failed.trackPageView('s3', '/a');
+		await vi.waitFor(async () => {
+			const events = await new EventJournal(join(dir, 'events.ndjson')).read();
+			expect(events.map((event) => event.seq)).toEqual([4]);
+		});
+
+		const restarted = await MetricsCollector.create();
+		expect(restarted.getMetrics().pageViews).toBe(4);
+		await shutdown(first, failed, restarted);
+	});
+
+	it('truncates the journal once a snapshot is saved', async () => {
+		const store = new MemoryStore();
+		configureMetrics({ dataDir: dir, store, journal: true });
+
+		const collector = await MetricsCollector.create();
+		collector.trackPageView('s1', '/a');
+		await collector.persistData();
+
+		expect(await new EventJournal(join(dir, 'events.ndjson')).read()).toEqual([]);
+		expect((await store.load()).journalSeq).toBe(1);
+		const restarted = await MetricsCollector.create();
+		expect(restarted.getMetrics().pageViews).toBe(1);
+		await shutdown(collector, restarted);
+	});
+});
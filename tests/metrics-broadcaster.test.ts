@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { configureMetrics, resetMetricsConfig } from '../src/config.js';
+import { EventStreamManager } from '../src/event-stream.js';
+import { InProcessTransport } from '../src/event-transport.js';
+import { MetricsBroadcaster, diffMetrics } from '../src/metrics-broadcaster.js';
+import { MetricsCollector } from '../src/metrics-collector.js';
+import { parseSse } from '../src/sse.js';
+
+function createMockController() {
+	return {
+		enqueue: vi.fn(),
+		close: vi.fn(),
+		desiredSize: 1,
+		error: vi.fn(),
+	} as unknown as ReadableStreamDefaultController;
+}
+
+function metricsEvents(ctrl: ReadableStreamDefaultController) {
+	return (ctrl.enqueue as ReturnType<typeof vi.fn>).mock.calls
+		.map((call) => parseSse(call[0] as string)[0])
+		.filter((message) => message?.event === 'metrics')
+		.map((message) => JSON.parse(message.data!));
+}
+
+describe('MetricsBroadcaster', () => {
+	let collector: MetricsCollector;
+	let broadcaster: MetricsBroadcaster;
+	let mgr: EventStreamManager;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		resetMetricsConfig();
+		configureMetrics({ eventHeartbeatIntervalMs: 0 });
+		EventStreamManager.resetInstance();
+		mgr = EventStreamManager.getInstance();
+		collector = new MetricsCollector({ ephemeral: true });
+	});
+
+	afterEach(() => {
+		broadcaster?.stop();
+		collector.destroy();
+		vi.useRealTimers();
+	});
+
+	it('stays idle while no clients are connected', () => {
+		const tick = vi.spyOn(collector, 'getMetrics');
+		broadcaster = new MetricsBroadcaster({ intervalMs: 1000, manager: mgr });
+		broadcaster.start(collector);
+
+		vi.advanceTimersByTime(5000);
+		expect(broadcaster.running).toBe(false);
+		expect(tick).not.toHaveBeenCalled();
+	});
+
+	it('broadcasts immediately and on the cadence once a client connects', () => {
+		broadcaster = new MetricsBroadcaster({ intervalMs: 1000, manager: mgr });
+		broadcaster.start(collector);
+		const ctrl = createMockController();
+		mgr.addClient('c1', ctrl);
+
+		expect(broadcaster.running).toBe(true);
+		expect(metricsEvents(ctrl)).toHaveLength(1);
+		collector.trackPageView('s1', '/home');
+		vi.advanceTimersByTime(1000);
+
+		const events = metricsEvents(ctrl);
+		expect(events).toHaveLength(2);
+		expect(events[1].data.pageViews).toBe(1);
+	});
+
+	it('stops ticking when the last client leaves', () => {
+		broadcaster = new MetricsBroadcaster({ intervalMs: 1000, manager: mgr });
+		broadcaster.start(collector);
+		mgr.addClient('c1', createMockController());
+		mgr.removeClient('c1');
+
+		expect(broadcaster.running).toBe(false);
+		const tick = vi.spyOn(collector, 'getMetrics');
+		vi.advanceTimersByTime(5000);
+		expect(tick).not.toHaveBeenCalled();
+	});
+
+	it('starts right away when clients are already connected', () => {
+		const ctrl = createMockController();
+		mgr.addClient('c1', ctrl);
+		broadcaster = new MetricsBroadcaster({ intervalMs: 1000, manager: mgr });
+		broadcaster.start(collector);
+
+		expect(broadcaster.running).toBe(true);
+		expect(metricsEvents(ctrl)).toHaveLength(1);
+	});
+
+	it('sends only changed fields between periodic full snapshots', () => {
+		broadcaster = new MetricsBroadcaster({ intervalMs: 1000, deltas: true, fullSnapshotEvery: 3, manager: mgr });
+		broadcaster.start(collector);
+		const ctrl = createMockController();
+		mgr.addClient('c1', ctrl);
+
+		collector.trackPageView('s1', '/home');
+		vi.advanceTimersByTime(1000);
+		vi.advanceTimersByTime(1000);
+		vi.advanceTimersByTime(1000);
+
+		const [full, delta, , nextFull] = metricsEvents(ctrl);
+		expect(full.message).toBeUndefined();
+		expect(full.data).toHaveProperty('topPages');
+		expect(delta.message).toBe('delta');
+		expect(delta.data.pageViews).toBe(1);
+		expect(delta.data).not.toHaveProperty('custom');
+		expect(nextFull.message).toBeUndefined();
+		expect(nextFull.data).toHaveProperty('custom');
+	});
+
+	it('sends a full snapshot on the tick after a new client connects', () => {
+		broadcaster = new MetricsBroadcaster({ intervalMs: 1000, deltas: true, manager: mgr });
+		broadcaster.start(collector);
+		mgr.addClient('c1', createMockController());
+		vi.advanceTimersByTime(1000);
+
+		const late = createMockController();
+		mgr.addClient('c2', late);
+		vi.advanceTimersByTime(1000);
+		const [first] = metricsEvents(late);
+		expect(first.message).toBeUndefined();
+		expect(first.data).toHaveProperty('topPages');
+	});
+
+	it('keeps metrics on the local manager when a transport is attached', () => {
+		mgr.setTransport(new InProcessTransport('broadcaster-replicas'));
+		EventStreamManager.resetInstance();
+		const replica = EventStreamManager.getInstance();
+		replica.setTransport(new InProcessTransport('broadcaster-replicas'));
+		const local = createMockController();
+		const remote = createMockController();
+		replica.addClient('remote', remote);
+
+		broadcaster = new MetricsBroadcaster({ intervalMs: 1000, manager: mgr });
+		broadcaster.start(collector);
+		mgr.addClient('local', local);
+		vi.advanceTimersByTime(1000);
+
+		expect(metricsEvents(local)).toHaveLength(2);
+		expect(metricsEvents(remote)).toHaveLength(0);
+		mgr.broadcastAlert({ level: 'warn' });
+		expect(remote.enqueue).toHaveBeenCalledTimes(2);
+		mgr.setTransport(null);
+		replica.setTransport(null);
+	});
+
+	it('detaches from the manager on stop', () => {
+		broadcaster = new MetricsBroadcaster({ intervalMs: 1000, manager: mgr });
+		broadcaster.start(collector);
+		broadcaster.stop();
+		const ctrl = createMockController();
+		mgr.addClient('c1', ctrl);
+
+		vi.advanceTimersByTime(2000);
+		expect(broadcaster.running).toBe(false);
+		expect(metricsEvents(ctrl)).toHaveLength(0);
+	});
+});
+
+describe('diffMetrics', () => {
+	it('returns top-level fields whose values changed', () => {
+		const collector = new MetricsCollector({ ephemeral: true });
+		const before = collector.getMetrics();
+		collector.trackPageView('s1', '/home');
+		const changed = diffMetrics(before, { ...collector.getMetrics(), uptime: before.uptime });
+
+		expect(changed.pageViews).toBe(1);
+		expect(changed.topPages).toHaveLength(1);
+		expect(changed).not.toHaveProperty('custom');
+		expect(changed).not.toHaveProperty('uptime');
+		collector.destroy();
+	});
+});
@@ -3,17 +3,24 @@ import { configureMetrics, resetMetricsConfig } from '../src/config.js';
 
 
 vi.mock('fs/promises', () => ({
-	readFile: vi.fn().mockRejectedValue(new Error('ENOENT')),
+	readFile: vi.fn().mockRejectedValue(Object.assign(new Error('ENOENT'), { code: 'ENOENT' })),
 	writeFile: vi.fn().mockResolvedValue(undefined),
+	mkdir: vi.fn().mockResolvedValue(undefined),
+	rename: vi.fn().mockResolvedValue(undefined),
+	unlink: vi.fn().mockResolvedValue(undefined),
 }));
 
-import { readFile, writeFile } from 'fs/promises';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+
+const enoent = () => Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
 import {
 	MetricsCollector,
 	createMetricsCollector,
 	getMetricsCollector,
 	resetMetricsCollectorSingleton,
 } from '../src/metrics-collector.js';
+import { MemoryStore } from '../src/store.js';
+import type { PersistedMetrics } from '../src/types.js';
 
 describe('MetricsCollector', () => {
 	let collector: MetricsCollector;
@@ -22,8 +29,10 @@ describe('MetricsCollector', () => {
 		vi.useFakeTimers();
 		resetMetricsConfig();
 		resetMetricsCollectorSingleton();
-		vi.mocked(readFile).mockRejectedValue(new Error('ENOENT'));
+		vi.mocked(readFile).mockRejectedValue(enoent());
 		vi.mocked(writeFile).mockResolvedValue(undefined);
+		vi.mocked(mkdir).mockResolvedValue(undefined);
+		vi.mocked(rename).mockResolvedValue(undefined);
 		collector = createMetricsCollector();
 	});
 
@@ -78,10 +87,10 @@ describe('MetricsCollector', () => {
 			expect(session!.pages).toEqual(['/home']);
 		});
 
-		it('increments request count', () => {
+		it('does not count toward tracked requests', () => {
 			collector.trackPageView('s1', '/a');
 			collector.trackPageView('s2', '/b');
-			expect(collector.getMetrics().totalRequests).toBe(2);
+			expect(collector.getMetrics().totalRequests).toBe(0);
 		});
 
 		it('stores referrer on session', () => {
@@ -100,12 +109,167 @@ describe('MetricsCollector', () => {
 		});
 	});
 
+	describe('trackRequest', () => {
+		it('records durations into the global histogram', () => {
+			collector.trackRequest({ path: '/', method: 'GET', status: 200, durationMs: 3 });
+			collector.trackRequest({ path: '/', method: 'GET', status: 200, durationMs: 40 });
+			collector.trackRequest({ path: '/api', method: 'POST', status: 500, durationMs: 700 });
+			const dur = collector.getMetrics().requestDuration;
+			expect(dur.count).toBe(3);
+			expect(dur.sum).toBe(743);
+			expect(dur.buckets.find((b) => b.le === 5)!.count).toBe(1);
+			expect(dur.buckets.find((b) => b.le === 50)!.count).toBe(2);
+			expect(dur.buckets.find((b) => b.le === 1000)!.count).toBe(3);
+		});
+
+		it('records durations per route', () => {
+			collector.trackRequest({ path: '/', method: 'get', status: 200, durationMs: 10 });
+			collector.trackRequest({ path: '/', method: 'GET', status: 200, durationMs: 20 });
+			collector.trackRequest({ path: '/', method: 'POST', status: 201, durationMs: 30 });
+			const routes = collector.getMetrics().requestDurationByRoute;
+			expect(routes).toHaveLength(2);
+			expect(routes[0]).toMatchObject({ path: '/', method: 'GET', count: 2 });
+			expect(routes[1]).toMatchObject({ path: '/', method: 'POST', count: 1 });
+		});
+
+		it('reports percentile estimates', () => {
+			for (let i = 0; i < 100; i++) {
+				collector.trackRequest({
+					path: '/',
+					method: 'GET',
+					status: 200,
+					durationMs: i < 90 ? 20 : 800,
+				});
+			}
+			const dur = collector.getMetrics().requestDuration;
+			expect(dur.p50).toBeGreaterThan(10);
+			expect(dur.p50).toBeLessThanOrEqual(25);
+			expect(dur.p90).toBeLessThanOrEqual(25);
+			expect(dur.p99).toBeGreaterThan(500);
+			expect(dur.p99).toBeLessThanOrEqual(1000);
+		});
+
+		it('uses configured bucket boundaries', () => {
+			configureMetrics({ requestDurationBucketsMs: [100, 1000] });
+			const c2 = createMetricsCollector();
+			c2.trackRequest({ path: '/', method: 'GET', status: 200, durationMs: 50 });
+			expect(c2.getMetrics().requestDuration.buckets).toEqual([
+				{ le: 100, count: 1 },
+				{ le: 1000, count: 1 },
+			]);
+			c2.destroy();
+		});
+
+		it('counts requests without counting page views', () => {
+			collector.trackRequest({ path: '/', method: 'GET', status: 200, durationMs: 5 });
+			collector.trackRequest({ path: '/', method: 'GET', status: 404, durationMs: 2 });
+			expect(collector.getMetrics()).toMatchObject({ totalRequests: 2, pageViews: 0 });
+		});
+
+		it('labels durations with the status class', () => {
+			collector.trackRequest({ path: '/', method: 'GET', status: 200, durationMs: 5 });
+			collector.trackRequest({ path: '/', method: 'GET', status: 204, durationMs: 5 });
+			collector.trackRequest({ path: '/', method: 'GET', status: 503, durationMs: 900 });
+			const series = collector.registry.histogram('request_duration_milliseconds').snapshot().series;
+			expect(series.map((s) => [s.labels.status, s.histogram!.count])).toEqual([
+				['2xx', 2],
+				['5xx', 1],
+			]);
+			expect(collector.getRouteDurations()).toMatchObject([{ path: '/', method: 'GET', count: 3, sum: 910 }]);
+		});
+	});
+
+	describe('registry', () => {
+		it('exposes built-in numbers through the registry', () => {
+			collector.trackPageView('s1', '/home');
+			collector.trackRequest({ path: '/home', method: 'GET', status: 200, durationMs: 5 });
+			collector.trackError();
+			const names = collector.registry.snapshot().map((m) => m.name);
+			expect(names).toEqual(
+				expect.arrayContaining(['requests_total', 'errors_total', 'page_views_total', 'sessions']),
+			);
+			expect(collector.registry.counter('requests_total').get()).toBe(1);
+			expect(collector.registry.counter('errors_total').get()).toBe(1);
+		});
+
+		it('includes custom metrics in getMetrics', () => {
+			collector.registry.gauge('queue_depth', { help: 'Queue depth.' }).set(4);
+			const custom = collector.getMetrics().custom;
+			expect(custom).toHaveLength(1);
+			expect(custom[0]).toMatchObject({
+				name: 'queue_depth',
+				type: 'gauge',
+				series: [{ labels: {}, value: 4 }],
+			});
+		});
+	});
+
 	describe('trackError', () => {
 		it('increments error count', () => {
 			collector.trackError();
 			collector.trackError();
 			expect(collector.getMetrics().totalErrors).toBe(2);
 		});
+
+		it('records the legacy session and type arguments', () => {
+			collector.trackError('s1', 'TimeoutError');
+			const [top] = collector.getMetrics().topErrors;
+			expect(top).toMatchObject({ type: 'TimeoutError', count: 1, affectedSessions: 1 });
+		});
+
+		it('groups structured errors by fingerprint with first and last seen', () => {
+			vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+			collector.trackError({ type: 'TypeError', message: 'Cannot read id of user 42', path: '/api/users', status: 500, sessionId: 's1' });
+			vi.setSystemTime(new Date('2026-01-01T00:05:00Z'));
+			collector.trackError({ type: 'TypeError', message: 'Cannot read id of user 7', path: '/api/users', status: 502, sessionId: 's2' });
+			collector.trackError({ type: 'NotFound', path: '/missing', status: 404 });
+
+			const { topErrors, errorsByType } = collector.getMetrics();
+			expect(topErrors).toHaveLength(2);
+			expect(topErrors[0]).toMatchObject({
+				type: 'TypeError',
+				message: 'Cannot read id of user 7',
+				count: 2,
+				affectedSessions: 2,
+				paths: ['/api/users'],
+				statuses: [500, 502],
+				firstSeen: '2026-01-01T00:00:00.000Z',
+				lastSeen: '2026-01-01T00:05:00.000Z',
+			});
+			expect(errorsByType).toEqual([
+				{ type: 'TypeError', count: 2, percentage: (2 / 3) * 100 },
+				{ type: 'NotFound', count: 1, percentage: (1 / 3) * 100 },
+			]);
+		});
+
+		it('reports errors per route against tracked requests or page views', () => {
+			for (let i = 0; i < 4; i++) {
+				collector.trackRequest({ path: '/api/users', method: 'GET', status: 200, durationMs: 5 });
+			}
+			collector.trackPageView('s1', '/checkout');
+			collector.trackPageView('s2', '/checkout');
+			collector.trackError({ type: 'TypeError', path: '/api/users' });
+			collector.trackError({ type: 'PaymentError', path: '/checkout' });
+			collector.trackError({ type: 'PaymentError', path: '/checkout' });
+			collector.trackError({ type: 'Orphan', path: '/never-seen' });
+
+			expect(collector.getMetrics().errorsByRoute).toEqual([
+				{ path: '/checkout', errors: 2, requests: 2, ratio: 1 },
+				{ path: '/api/users', errors: 1, requests: 4, ratio: 0.25 },
+				{ path: '/never-seen', errors: 1, requests: 0, ratio: null },
+			]);
+		});
+
+		it('persists and merges error groups', async () => {
+			collector.trackError({ type: 'TypeError', message: 'boom', path: '/a', sessionId: 's1' });
+			const other = new MetricsCollector({ ephemeral: true });
+			other.trackError({ type: 'TypeError', message: 'boom', path: '/b', sessionId: 's2' });
+			other.merge(collector.snapshot());
+
+			expect(collector.serialize().errorGroups).toHaveLength(1);
+			expect(other.getMetrics().topErrors[0]).toMatchObject({ count: 2, affectedSessions: 2, paths: expect.arrayContaining(['/a', '/b']) });
+			other.destroy();
+		});
 	});
 
 	describe('getSessionMetrics', () => {
@@ -185,17 +349,17 @@ describe('MetricsCollector', () => {
 			expect(collector.getMetrics().uptime).toBeGreaterThanOrEqual(5);
 		});
 
-		it('returns request duration buckets', () => {
+		it('returns empty request duration histogram without tracked requests', () => {
 			collector.trackPageView('s1', '/');
-			collector.trackPageView('s2', '/');
 			const dur = collector.getMetrics().requestDuration;
-			expect(dur.total).toBe(2);
-			expect(dur.bucket1).toBeLessThanOrEqual(dur.bucket2);
-			expect(dur.bucket2).toBeLessThanOrEqual(dur.bucket3);
+			expect(dur.count).toBe(0);
+			expect(dur.sum).toBe(0);
+			expect(dur.p50).toBe(0);
+			expect(dur.buckets.every((b) => b.count === 0)).toBe(true);
 		});
 
 		it('returns requestRate and errorRate', () => {
-			collector.trackPageView('s1', '/');
+			collector.trackRequest({ path: '/', method: 'GET', status: 200, durationMs: 5 });
 			collector.trackError();
 			vi.advanceTimersByTime(1000);
 			const m = collector.getMetrics();
@@ -204,6 +368,107 @@ describe('MetricsCollector', () => {
 		});
 	});
 
+	describe('getMetrics with a time window', () => {
+		it('aggregates the last hour', () => {
+			collector.trackPageView('s1', '/a');
+			vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+			collector.trackPageView('s2', '/b');
+			collector.trackPageView('s2', '/b');
+			collector.trackError();
+			const hour = collector.getMetrics({ window: '1h' });
+			expect(hour.resolution).toBe('minute');
+			expect(hour.pageViews).toBe(2);
+			expect(hour.uniqueVisitors).toBe(1);
+			expect(hour.errors).toBe(1);
+			expect(hour.topPages[0]).toMatchObject({ path: '/b', views: 2, uniqueVisitors: 1 });
+		});
+
+		it('aggregates the last day and week at hourly resolution', () => {
+			collector.trackPageView('s1', '/a', undefined, 'https://google.com');
+			vi.advanceTimersByTime(3 * 24 * 60 * 60 * 1000);
+			collector.trackPageView('s2', '/a', undefined, 'https://facebook.com');
+			const day = collector.getMetrics({ window: '24h' });
+			expect(day.resolution).toBe('hour');
+			expect(day.pageViews).toBe(1);
+			expect(day.trafficSources).toEqual([
+				{ source: 'Social Media', visits: 1, percentage: 100 },
+			]);
+			const week = collector.getMetrics({ window: '7d' });
+			expect(week.pageViews).toBe(2);
+			expect(week.uniqueVisitors).toBe(2);
+		});
+
+		it('accepts explicit from/to bounds', () => {
+			const start = Date.now();
+			collector.trackPageView('s1', '/');
+			vi.advanceTimersByTime(30 * 60 * 1000);
+			collector.trackPageView('s2', '/');
+			const m = collector.getMetrics({ from: start, to: new Date(start + 10 * 60 * 1000) });
+			expect(m.pageViews).toBe(1);
+		});
+
+		it('compares against the previous period', () => {
+			collector.trackPageView('s1', '/');
+			vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+			collector.trackPageView('s2', '/');
+			collector.trackPageView('s3', '/');
+			const m = collector.getMetrics({ window: '24h', compare: true });
+			expect(m.pageViews).toBe(2);
+			expect(m.previous!.pageViews).toBe(1);
+		});
+	});
+
+	describe('getTimeSeries', () => {
+		beforeEach(() => {
+			vi.setSystemTime(Date.UTC(2024, 0, 1));
+		});
+
+		it('returns zero-filled page view series', () => {
+			const start = Date.now();
+			collector.trackPageView('s1', '/');
+			vi.advanceTimersByTime(2 * 60 * 1000);
+			collector.trackPageView('s2', '/about');
+			const points = collector.getTimeSeries('pageViews', {
+				from: start,
+				to: new Date(start + 3 * 60 * 1000),
+			});
+			expect(points.map(([, v]) => v)).toEqual([1, 0, 1]);
+			expect(points[1][0] - points[0][0]).toBe(60 * 1000);
+		});
+
+		it('filters by path', () => {
+			const start = Date.now();
+			collector.trackPageView('s1', '/');
+			collector.trackPageView('s2', '/about');
+			const points = collector.getTimeSeries('pageViews', {
+				from: start,
+				to: start + 60 * 1000,
+				path: '/about',
+			});
+			expect(points.map(([, v]) => v)).toEqual([1]);
+		});
+
+		it('charts tracked requests separately from page views', () => {
+			const start = Date.now();
+			collector.trackPageView('s1', '/');
+			collector.trackRequest({ path: '/api', method: 'GET', status: 200, durationMs: 5 });
+			collector.trackRequest({ path: '/api', method: 'POST', status: 500, durationMs: 5 });
+			const query = { from: start, to: start + 60 * 1000 };
+			expect(collector.getTimeSeries('pageViews', query)).toEqual([[start, 1]]);
+			expect(collector.getTimeSeries('requests', query)).toEqual([[start, 2]]);
+			vi.advanceTimersByTime(1000);
+			expect(collector.getMetrics({ window: '1h' })).toMatchObject({ pageViews: 1, requests: 2 });
+		});
+
+		it('defaults to now as the end of the range', () => {
+			const start = Date.now();
+			collector.trackError();
+			vi.advanceTimersByTime(90 * 1000);
+			const points = collector.getTimeSeries('errors', { from: start });
+			expect(points.reduce((sum, [, v]) => sum + v, 0)).toBe(1);
+		});
+	});
+
 	describe('categorizeReferrer', () => {
 		it('returns Direct for empty referrer', () => {
 			expect(collector.categorizeReferrer('')).toBe('Direct');
@@ -304,53 +569,314 @@ describe('MetricsCollector', () => {
 	});
 
 	describe('persistData', () => {
-		it('writes page metrics and session metrics files', async () => {
+		it('writes a versioned envelope to a temp file and renames it into place', async () => {
 			collector.trackPageView('s1', '/test');
 			vi.mocked(writeFile).mockClear();
+			vi.mocked(rename).mockClear();
 			await collector.persistData();
-			expect(writeFile).toHaveBeenCalledTimes(2);
+			expect(mkdir).toHaveBeenCalledWith('data/metrics', { recursive: true });
+			expect(writeFile).toHaveBeenCalledTimes(1);
+			const temp = vi.mocked(writeFile).mock.calls[0][0] as string;
+			expect(temp).toMatch(/metrics\.json\..+\.tmp$/);
+			expect(rename).toHaveBeenCalledWith(temp, 'data/metrics/metrics.json');
+			const data = JSON.parse(vi.mocked(writeFile).mock.calls[0][1] as string);
+			expect(data.version).toBe(1);
+			expect(typeof data.writtenAt).toBe('string');
+		});
+
+		it('persists custom registry metrics but not built-ins', async () => {
+			collector.registry.counter('signups_total').inc(2);
+			collector.trackPageView('s1', '/test');
+			vi.mocked(writeFile).mockClear();
+			await collector.persistData();
+			const data = JSON.parse(vi.mocked(writeFile).mock.calls[0][1] as string);
+			expect(data.registry.map((m: { name: string }) => m.name)).toEqual(['signups_total']);
 		});
 
 		it('serializes Sets to arrays', async () => {
 			collector.trackPageView('s1', '/test');
 			vi.mocked(writeFile).mockClear();
 			await collector.persistData();
-			const call = vi.mocked(writeFile).mock.calls[0];
-			const data = JSON.parse(call[1] as string);
-			expect(Array.isArray(data[0].uniqueVisitors)).toBe(true);
+			const data = JSON.parse(vi.mocked(writeFile).mock.calls[0][1] as string);
+			expect(Array.isArray(data.pages[0].uniqueVisitors)).toBe(true);
 		});
 	});
 
 	describe('loadPersistedData', () => {
-		it('loads page metrics from file', async () => {
-			vi.mocked(readFile)
-				.mockResolvedValueOnce(
-					JSON.stringify([
+		it('loads page metrics from the envelope', async () => {
+			vi.mocked(readFile).mockImplementation(async (file) => {
+				if (String(file).endsWith('/metrics.json')) {
+					return JSON.stringify({
+						version: 1,
+						writtenAt: '2024-01-01T00:00:00Z',
+						pages: [
+							{
+								path: '/saved',
+								views: 10,
+								uniqueVisitors: ['a', 'b'],
+								lastAccessed: '2024-01-01T00:00:00Z',
+							},
+						],
+						sessions: [],
+					});
+				}
+				throw enoent();
+			});
+
+			const c2 = createMetricsCollector();
+			await c2.loadPersistedData();
+			const metrics = c2.getMetrics();
+			expect(metrics.pageViews).toBe(10);
+			c2.destroy();
+		});
+
+		it('migrates legacy bare-array files', async () => {
+			vi.mocked(readFile).mockImplementation(async (file) => {
+				if (String(file).endsWith('page-metrics.json')) {
+					return JSON.stringify([
 						{
-							path: '/saved',
-							views: 10,
-							uniqueVisitors: ['a', 'b'],
+							path: '/legacy',
+							views: 4,
+							uniqueVisitors: ['a'],
 							lastAccessed: '2024-01-01T00:00:00Z',
 						},
-					]),
-				)
-				.mockResolvedValueOnce(JSON.stringify([]));
+					]);
+				}
+				throw enoent();
+			});
 
 			const c2 = createMetricsCollector();
 			await c2.loadPersistedData();
-			const metrics = c2.getMetrics();
-			expect(metrics.pageViews).toBe(10);
+			expect(c2.getMetrics().pageViews).toBe(4);
+			c2.destroy();
+		});
+
+		it('restores registry metrics registered after load', async () => {
+			vi.mocked(readFile).mockImplementation(async (file) => {
+				if (String(file).endsWith('registry-metrics.json')) {
+					return JSON.stringify([
+						{ name: 'signups_total', type: 'counter', series: [{ labels: {}, value: 7 }] },
+					]);
+				}
+				throw enoent();
+			});
+
+			const c2 = createMetricsCollector();
+			await c2.loadPersistedData();
+			expect(c2.registry.counter('signups_total').get()).toBe(7);
 			c2.destroy();
 		});
 
 		it('handles missing files gracefully', async () => {
-			vi.mocked(readFile).mockRejectedValue(new Error('ENOENT'));
+			vi.mocked(readFile).mockRejectedValue(enoent());
 			const c2 = createMetricsCollector();
 			await expect(c2.loadPersistedData()).resolves.not.toThrow();
 			c2.destroy();
 		});
 	});
 
+	describe('hyperloglog unique visitors', () => {
+		it('counts and persists unique visitors as sketches', async () => {
+			configureMetrics({ uniqueVisitors: 'hyperloglog', store: 'memory' });
+			const c2 = await MetricsCollector.create();
+			c2.trackPageView('s1', '/home');
+			c2.trackPageView('s2', '/home');
+			c2.trackPageView('s1', '/home');
+
+			expect(c2.getPageStats()[0].uniqueVisitors).toBe(2);
+			expect(c2.getMetrics({ window: '1h' }).uniqueVisitors).toBe(2);
+			const [page] = c2.serialize().pages!;
+			expect(page.uniqueVisitors).toMatchObject({ precision: 14, sparse: expect.any(Array) });
+			c2.destroy();
+		});
+
+		it('folds exact persisted visitors into sketches', async () => {
+			configureMetrics({
+				uniqueVisitors: 'hyperloglog',
+				store: new MemoryStore({
+					pages: [
+						{
+							path: '/home',
+							views: 2,
+							uniqueVisitors: ['a', 'b'],
+							lastAccessed: '2024-01-01T00:00:00Z',
+						},
+					],
+				}),
+			});
+			const c2 = createMetricsCollector();
+			c2.trackPageView('b', '/home');
+			c2.trackPageView('c', '/home');
+			await c2.ready();
+
+			expect(c2.getPageStats()[0]).toMatchObject({ views: 4, uniqueVisitors: 3 });
+			c2.destroy();
+		});
+	});
+
+	describe('hyperloglog precision changes', () => {
+		it('folds sketches persisted at a higher precision into the configured one', async () => {
+			configureMetrics({ uniqueVisitors: 'hyperloglog', hyperLogLogPrecision: 14, store: 'memory' });
+			const before = await MetricsCollector.create();
+			before.trackPageView('s1', '/home');
+			before.trackPageView('s2', '/home');
+			const data = before.serialize();
+			before.destroy();
+
+			configureMetrics({ uniqueVisitors: 'hyperloglog', hyperLogLogPrecision: 12, store: new MemoryStore(data) });
+			const after = createMetricsCollector();
+			after.trackPageView('s3', '/home');
+			await expect(after.ready()).resolves.toBeUndefined();
+
+			expect(after.getPageStats()[0]).toMatchObject({ views: 3, uniqueVisitors: 3 });
+			expect(after.serialize().pages![0].uniqueVisitors).toMatchObject({ precision: 12 });
+			expect(after.getMetrics({ window: '1h' }).uniqueVisitors).toBe(3);
+			after.destroy();
+		});
+	});
+
+	describe('ready', () => {
+		function deferredStore(data: PersistedMetrics) {
+			let release!: () => void;
+			const released = new Promise<void>((resolve) => {
+				release = resolve;
+			});
+			const store = {
+				load: vi.fn(async () => {
+					await released;
+					return structuredClone(data);
+				}),
+				save: vi.fn().mockResolvedValue(undefined),
+			};
+			return { store, release };
+		}
+
+		const persisted: PersistedMetrics = {
+			pages: [
+				{
+					path: '/home',
+					views: 10,
+					uniqueVisitors: ['a', 'b'],
+					lastAccessed: '2024-01-01T00:00:00Z',
+				},
+			],
+			sessions: [
+				{
+					sessionId: 'a',
+					userId: 'u1',
+					startTime: '2024-01-01T00:00:00Z',
+					lastActivity: '2024-01-01T00:00:00Z',
+					pageViews: 3,
+					pages: ['/home', '/pricing'],
+				},
+			],
+			registry: [
+				{ name: 'signups_total', type: 'counter', series: [{ labels: {}, value: 7 }] },
+			],
+		};
+
+		it('merges tracking done before the load resolves instead of overwriting it', async () => {
+			const { store, release } = deferredStore(persisted);
+			configureMetrics({ store });
+			const c2 = createMetricsCollector();
+			c2.registry.counter('signups_total').inc();
+
+			c2.trackPageView('a', '/about');
+			c2.trackPageView('c', '/home');
+			release();
+			await c2.ready();
+
+			expect(c2.getPageStats().find((p) => p.path === '/home')).toMatchObject({
+				views: 11,
+				uniqueVisitors: 3,
+			});
+			const session = c2.getSessionMetrics('a')!;
+			expect(session.pageViews).toBe(4);
+			expect(session.pages).toEqual(['/home', '/pricing', '/about']);
+			expect(session.userId).toBe('u1');
+			expect(session.startTime.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+			expect(c2.registry.counter('signups_total').get()).toBe(8);
+			c2.destroy();
+		});
+
+		it('holds persistence until the initial load completes', async () => {
+			const { store, release } = deferredStore(persisted);
+			configureMetrics({ store });
+			const c2 = createMetricsCollector();
+			c2.trackPageView('c', '/home');
+
+			const persisting = c2.persistData();
+			await Promise.resolve();
+			expect(store.save).not.toHaveBeenCalled();
+
+			release();
+			await persisting;
+			const saved = store.save.mock.calls[0][0] as PersistedMetrics;
+			expect(saved.pages?.find((p) => p.path === '/home')?.views).toBe(11);
+			c2.destroy();
+		});
+
+		it('refuses to persist over data it could not load and retries the load', async () => {
+			const eacces = Object.assign(new Error('EACCES'), { code: 'EACCES' });
+			const store = {
+				load: vi
+					.fn()
+					.mockRejectedValueOnce(eacces)
+					.mockRejectedValueOnce(eacces)
+					.mockResolvedValue(structuredClone(persisted)),
+				save: vi.fn().mockResolvedValue(undefined),
+			};
+			configureMetrics({ store });
+			const c2 = createMetricsCollector();
+			c2.trackPageView('c', '/home');
+			await c2.ready();
+
+			await c2.persistData();
+			expect(store.save).not.toHaveBeenCalled();
+
+			await c2.persistData();
+			expect(store.load).toHaveBeenCalledTimes(3);
+			const saved = store.save.mock.calls[0][0] as PersistedMetrics;
+			expect(saved.pages?.find((p) => p.path === '/home')?.views).toBe(11);
+			c2.destroy();
+		});
+
+		it('logs merge failures instead of rejecting and keeps persistence paused', async () => {
+			const error = vi.fn();
+			const corrupt = {
+				...structuredClone(persisted),
+				rollups: { minute: [{ start: 0, pageViews: 1, requests: 0, errors: 0, visitors: [] }], hour: [], day: [] },
+			} as unknown as PersistedMetrics;
+			const store = { load: vi.fn().mockResolvedValue(corrupt), save: vi.fn().mockResolvedValue(undefined) };
+			configureMetrics({
+				store,
+				getLogger: () => ({ info: vi.fn(), warn: vi.fn(), error, debug: vi.fn() }),
+			});
+			const c2 = createMetricsCollector();
+
+			await expect(c2.ready()).resolves.toBeUndefined();
+			expect(error).toHaveBeenCalledWith(
+				'[MetricsCollector] Failed to merge persisted metrics, persistence is paused until a load succeeds',
+				expect.objectContaining({ error: expect.any(String) }),
+			);
+			await c2.persistData();
+			expect(store.save).not.toHaveBeenCalled();
+			c2.destroy();
+		});
+
+		it('loads persisted data only once', async () => {
+			const { store, release } = deferredStore(persisted);
+			configureMetrics({ store });
+			release();
+			const c2 = await MetricsCollector.create();
+			await c2.loadPersistedData();
+
+			expect(store.load).toHaveBeenCalledTimes(1);
+			expect(c2.getMetrics().pageViews).toBe(10);
+			c2.destroy();
+		});
+	});
+
 	describe('destroy', () => {
 		it('clears intervals', () => {
 			const clearSpy = vi.spyOn(global, 'clearInterval');
@@ -362,7 +888,18 @@ describe('MetricsCollector', () => {
 			collector.trackPageView('s1', '/');
 			collector.destroy();
 			
-			expect(writeFile).toHaveBeenCalled();
+			await vi.waitFor(() => expect(writeFile).toHaveBeenCalled());
+		});
+
+		it('resolves once the final persist has been saved', async () => {
+			const store = new MemoryStore();
+			configureMetrics({ store });
+			const c2 = await MetricsCollector.create();
+			c2.trackPageView('s1', '/home');
+
+			await c2.destroy();
+			expect((await store.load()).pages).toHaveLength(1);
+			await expect(c2.destroy()).resolves.toBeUndefined();
 		});
 	});
 
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { configureMetrics, resetMetricsConfig } from '../src/config.js';
+import { OtlpExporter, buildOtlpPayload } from '../src/otlp-exporter.js';
+import type { OtlpMetricsSource } from '../src/otlp-exporter.js';
+import { MetricsCollector } from '../src/metrics-collector.js';
+import { MetricsRegistry } from '../src/registry.js';
+
+function createSource(): OtlpMetricsSource {
+	const registry = new MetricsRegistry();
+	const pageViews = registry.counter('page_views_total', { help: 'Total page views by path.', labels: ['path'] });
+	pageViews.inc({ path: '/home' }, 7);
+	pageViews.inc({ path: '/about' }, 3);
+	registry.gauge('sessions', { help: 'Sessions.' }).set(3);
+	registry.counter('errors_total', { help: 'Errors.' }).inc();
+	return { registry, startedAt: 60000 };
+}
+
+interface StandIn {
+	server: Server;
+	endpoint: string;
+	bodies: unknown[];
+	statuses: number[];
+}
+
+async function startStandIn(statuses: number[] = []): Promise<StandIn> {
+	const bodies: unknown[] = [];
+	const server = createServer((req, res) => {
+		let data = '';
+		req.on('data', (chunk) => (data += chunk));
+		req.on('end', () => {
+			bodies.push(JSON.parse(data));
+			res.statusCode = statuses.shift() ?? 200;
+			res.end('{}');
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+	const { port } = server.address() as AddressInfo;
+	return { server, endpoint: `http://127.0.0.1:${port}/v1/metrics`, bodies, statuses };
+}
+
+describe('buildOtlpPayload', () => {
+	it('builds an ExportMetricsServiceRequest with resource attributes', () => {
+		const payload = buildOtlpPayload(createSource(), {
+			serviceName: 'web',
+			resourceAttributes: { 'deployment.environment': 'test' },
+		});
+		const attrs = payload.resourceMetrics[0].resource.attributes;
+		expect(attrs).toContainEqual({ key: 'service.name', value: { stringValue: 'web' } });
+		expect(attrs).toContainEqual({
+			key: 'deployment.environment',
+			value: { stringValue: 'test' },
+		});
+	});
+
+	it('encodes counters as cumulative monotonic sums per label set', () => {
+		const payload = buildOtlpPayload(createSource(), {}, 120000);
+		const metrics = payload.resourceMetrics[0].scopeMetrics[0].metrics;
+		const pageViews = metrics.find((m) => m.name === 'tinyland.page_views')!;
+		expect(pageViews.sum!.isMonotonic).toBe(true);
+		expect(pageViews.sum!.aggregationTemporality).toBe(2);
+		expect(pageViews.sum!.dataPoints).toHaveLength(2);
+		expect(pageViews.sum!.dataPoints[0]).toEqual({
+			attributes: [{ key: 'path', value: { stringValue: '/home' } }],
+			startTimeUnixNano: '60000000000',
+			timeUnixNano: '120000000000',
+			asDouble: 7,
+		});
+	});
+
+	it('encodes gauges as gauges', () => {
+		const payload = buildOtlpPayload(createSource());
+		const metrics = payload.resourceMetrics[0].scopeMetrics[0].metrics;
+		const byName = Object.fromEntries(metrics.map((m) => [m.name, m]));
+		expect(byName['tinyland.sessions'].gauge!.dataPoints[0].asDouble).toBe(3);
+		expect(byName['tinyland.errors'].sum!.dataPoints[0].asDouble).toBe(1);
+	});
+
+	it('encodes histograms and summaries from the registry', () => {
+		const source = createSource();
+		const registry = source.registry as MetricsRegistry;
+		const histogram = registry.histogram('latency', { help: 'Latency.', unit: 'ms', labels: ['route'], buckets: [10, 100] });
+		[5, 50, 60, 785].forEach((v) => histogram.observe({ route: '/' }, v));
+		registry.summary('size', { quantiles: [0.5] }).observe(4);
+
+		const metrics = buildOtlpPayload(source).resourceMetrics[0].scopeMetrics[0].metrics;
+		const exported = metrics.find((m) => m.name === 'tinyland.latency')!;
+		expect(exported.unit).toBe('ms');
+		expect(exported.histogram!.dataPoints[0]).toMatchObject({
+			count: '4',
+			sum: 900,
+			bucketCounts: ['1', '2', '1'],
+			explicitBounds: [10, 100],
+		});
+		expect(metrics.find((m) => m.name === 'tinyland.size')!.summary!.dataPoints[0]).toMatchObject({
+			count: '1',
+			quantileValues: [{ quantile: 0.5, value: 4 }],
+		});
+	});
+
+	it('exports the collector built-ins, including request durations', () => {
+		const collector = new MetricsCollector({ ephemeral: true });
+		collector.trackPageView('s1', '/');
+		collector.trackRequest({ path: '/', method: 'GET', status: 200, durationMs: 12 });
+
+		const names = buildOtlpPayload(collector).resourceMetrics[0].scopeMetrics[0].metrics.map((m) => m.name);
+		expect(names).toEqual(
+			expect.arrayContaining([
+				'tinyland.page_views',
+				'tinyland.requests',
+				'tinyland.errors',
+				'tinyland.sessions',
+				'tinyland.active_sessions',
+				'tinyland.request_duration_milliseconds',
+			]),
+		);
+		collector.destroy();
+	});
+});
+
+describe('OtlpExporter', () => {
+	let standIn: StandIn;
+
+	beforeEach(() => {
+		resetMetricsConfig();
+	});
+
+	afterEach(async () => {
+		await new Promise((resolve) => standIn.server.close(resolve));
+	});
+
+	it('posts the payload to the configured endpoint', async () => {
+		standIn = await startStandIn();
+		const exporter = new OtlpExporter(createSource(), { endpoint: standIn.endpoint });
+		await expect(exporter.export()).resolves.toBe(true);
+		expect(standIn.bodies).toHaveLength(1);
+		expect(standIn.bodies[0]).toHaveProperty('resourceMetrics');
+	});
+
+	it('retries retryable responses with backoff', async () => {
+		standIn = await startStandIn([503, 429]);
+		const exporter = new OtlpExporter(createSource(), {
+			endpoint: standIn.endpoint,
+			initialBackoffMs: 5,
+		});
+		await expect(exporter.export()).resolves.toBe(true);
+		expect(standIn.bodies).toHaveLength(3);
+	});
+
+	it('gives up after maxRetries', async () => {
+		standIn = await startStandIn([503, 503, 503]);
+		const exporter = new OtlpExporter(createSource(), {
+			endpoint: standIn.endpoint,
+			maxRetries: 1,
+			initialBackoffMs: 5,
+		});
+		await expect(exporter.export()).resolves.toBe(false);
+		expect(standIn.bodies).toHaveLength(2);
+	});
+
+	it('does not retry non-retryable responses', async () => {
+		standIn = await startStandIn([400]);
+		const exporter = new OtlpExporter(createSource(), {
+			endpoint: standIn.endpoint,
+			initialBackoffMs: 5,
+		});
+		await expect(exporter.export()).resolves.toBe(false);
+		expect(standIn.bodies).toHaveLength(1);
+	});
+
+	it('exports on the configured interval', async () => {
+		standIn = await startStandIn();
+		const exporter = new OtlpExporter(createSource(), {
+			endpoint: standIn.endpoint,
+			intervalMs: 20,
+		});
+		exporter.start();
+		await new Promise((resolve) => setTimeout(resolve, 70));
+		await exporter.destroy();
+		expect(standIn.bodies.length).toBeGreaterThanOrEqual(2);
+	});
+
+	it('flushes before the collector finishes destroying', async () => {
+		standIn = await startStandIn();
+		configureMetrics({ store: 'memory', otlp: { endpoint: standIn.endpoint } });
+		const collector = new MetricsCollector();
+		collector.trackPageView('s1', '/');
+
+		await collector.destroy();
+		expect(standIn.bodies).toHaveLength(1);
+	});
+
+	it('flushes once on destroy', async () => {
+		standIn = await startStandIn();
+		const exporter = new OtlpExporter(createSource(), { endpoint: standIn.endpoint });
+		exporter.start();
+		await exporter.destroy();
+		expect(standIn.bodies).toHaveLength(1);
+	});
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { resetMetricsConfig } from '../src/config.js';
+
+vi.mock('fs/promises', () => ({
+	readFile: vi.fn().mockRejectedValue(Object.assign(new Error('ENOENT'), { code: 'ENOENT' })),
+	writeFile: vi.fn().mockResolvedValue(undefined),
+	mkdir: vi.fn().mockResolvedValue(undefined),
+	rename: vi.fn().mockResolvedValue(undefined),
+	unlink: vi.fn().mockResolvedValue(undefined),
+}));
+
+import {
+	PROMETHEUS_CONTENT_TYPE,
+	createPrometheusHandler,
+	escapeLabelValue,
+	formatPrometheus,
+	histogramSamples,
+} from '../src/prometheus.js';
+import { MetricsCollector, createMetricsCollector } from '../src/metrics-collector.js';
+
+describe('prometheus', () => {
+	describe('escapeLabelValue', () => {
+		it('escapes backslashes, quotes and newlines', () => {
+			expect(escapeLabelValue('a\\b"c\nd')).toBe('a\\\\b\\"c\\nd');
+		});
+	});
+
+	describe('formatPrometheus', () => {
+		it('emits HELP and TYPE lines followed by samples', () => {
+			const text = formatPrometheus([
+				{
+					name: 'x_total',
+					help: 'An example.\nSecond line',
+					type: 'counter',
+					samples: [{ labels: { path: '/"q"' }, value: 3 }],
+				},
+			]);
+			expect(text).toBe(
+				'# HELP x_total An example.\\nSecond line\n' +
+					'# TYPE x_total counter\n' +
+					'x_total{path="/\\"q\\""} 3\n',
+			);
+		});
+
+		it('formats special float values', () => {
+			const text = formatPrometheus([
+				{ name: 'g', help: 'g', type: 'gauge', samples: [{ value: NaN }, { value: Infinity }] },
+			]);
+			expect(text).toContain('g NaN\n');
+			expect(text).toContain('g +Inf\n');
+		});
+	});
+
+	describe('histogramSamples', () => {
+		it('emits cumulative buckets, +Inf, sum and count', () => {
+			const samples = histogramSamples(
+				{
+					buckets: [
+						{ le: 100, count: 1 },
+						{ le: 1000, count: 2 },
+					],
+					count: 3,
+					sum: 5500,
+					p50: 0,
+					p90: 0,
+					p99: 0,
+				},
+				{ path: '/' },
+				1000,
+			);
+			expect(samples).toEqual([
+				{ suffix: '_bucket', labels: { path: '/', le: '0.1' }, value: 1 },
+				{ suffix: '_bucket', labels: { path: '/', le: '1' }, value: 2 },
+				{ suffix: '_bucket', labels: { path: '/', le: '+Inf' }, value: 3 },
+				{ suffix: '_sum', labels: { path: '/' }, value: 5.5 },
+				{ suffix: '_count', labels: { path: '/' }, value: 3 },
+			]);
+		});
+	});
+
+	describe('MetricsCollector.toPrometheus', () => {
+		let collector: MetricsCollector;
+
+		beforeEach(() => {
+			resetMetricsConfig();
+			collector = createMetricsCollector();
+		});
+
+		afterEach(() => {
+			collector.destroy();
+		});
+
+		it('exposes page views per path as a counter', () => {
+			collector.trackPageView('s1', '/home');
+			collector.trackPageView('s2', '/home');
+			const text = collector.toPrometheus();
+			expect(text).toContain('# TYPE tinyland_page_views_total counter');
+			expect(text).toContain('tinyland_page_views_total{path="/home"} 2');
+			expect(text).toContain('tinyland_page_unique_visitors{path="/home"} 2');
+		});
+
+		it('exposes sessions, requests, errors and uptime', () => {
+			collector.trackPageView('s1', '/');
+			collector.trackRequest({ path: '/', method: 'GET', status: 200, durationMs: 5 });
+			collector.trackError();
+			const text = collector.toPrometheus();
+			expect(text).toContain('# TYPE tinyland_sessions gauge');
+			expect(text).toContain('tinyland_sessions 1');
+			expect(text).toContain('tinyland_active_sessions 1');
+			expect(text).toContain('tinyland_requests_total 1');
+			expect(text).toContain('tinyland_errors_total 1');
+			expect(text).toMatch(/^tinyland_uptime_seconds \d/m);
+		});
+
+		it('exposes the request duration histogram by route', () => {
+			collector.trackRequest({ path: '/api', method: 'GET', status: 200, durationMs: 40 });
+			const text = collector.toPrometheus();
+			expect(text).toContain('# TYPE tinyland_request_duration_milliseconds histogram');
+			expect(text).toContain(
+				'tinyland_request_duration_milliseconds_bucket{method="GET",path="/api",status="2xx",le="50"} 1',
+			);
+			expect(text).toContain(
+				'tinyland_request_duration_milliseconds_bucket{method="GET",path="/api",status="2xx",le="+Inf"} 1',
+			);
+			expect(text).toContain(
+				'tinyland_request_duration_milliseconds_sum{method="GET",path="/api",status="2xx"} 40',
+			);
+			expect(text).toContain(
+				'tinyland_request_duration_milliseconds_count{method="GET",path="/api",status="2xx"} 1',
+			);
+		});
+
+		it('exposes custom registry metrics', () => {
+			collector.registry.counter('signups_total', { help: 'Signups.', labels: ['plan'] }).inc({ plan: 'pro' });
+			const text = collector.toPrometheus();
+			expect(text).toContain('# TYPE tinyland_signups_total counter');
+			expect(text).toContain('tinyland_signups_total{plan="pro"} 1');
+		});
+
+		it('supports a custom namespace', () => {
+			expect(collector.toPrometheus({ namespace: 'app' })).toContain('app_requests_total 0');
+		});
+	});
+
+	describe('createPrometheusHandler', () => {
+		it('serves the exposition with the Prometheus content type', async () => {
+			const handler = createPrometheusHandler({ toPrometheus: () => 'x 1\n' });
+			const res = handler(new Request('http://localhost/metrics'));
+			expect(res.status).toBe(200);
+			expect(res.headers.get('Content-Type')).toBe(PROMETHEUS_CONTENT_TYPE);
+			expect(await res.text()).toBe('x 1\n');
+		});
+
+		it('rejects non-GET methods', () => {
+			const handler = createPrometheusHandler({ toPrometheus: () => '' });
+			const res = handler(new Request('http://localhost/metrics', { method: 'POST' }));
+			expect(res.status).toBe(405);
+		});
+	});
+});
@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { configureMetrics, resetMetricsConfig } from '../src/config.js';
+import { MetricsRegistry, mergeSerializedMetrics } from '../src/registry.js';
+
+describe('MetricsRegistry', () => {
+	let registry: MetricsRegistry;
+
+	beforeEach(() => {
+		resetMetricsConfig();
+		registry = new MetricsRegistry();
+	});
+
+	describe('registration', () => {
+		it('returns the same metric for the same name and type', () => {
+			const a = registry.counter('hits_total');
+			const b = registry.counter('hits_total');
+			expect(a).toBe(b);
+		});
+
+		it('throws when a name is re-registered with another type', () => {
+			registry.counter('hits_total');
+			expect(() => registry.gauge('hits_total')).toThrow(/already registered/);
+		});
+
+		it('rejects invalid metric names', () => {
+			expect(() => registry.counter('bad-name')).toThrow(/Invalid metric name/);
+			expect(() => registry.counter('1abc')).toThrow(/Invalid metric name/);
+		});
+
+		it('rejects invalid and reserved label names', () => {
+			expect(() => registry.counter('a_total', { labels: ['bad-label'] })).toThrow(/Invalid label/);
+			expect(() => registry.counter('b_total', { labels: ['__internal'] })).toThrow(/Invalid label/);
+			expect(() => registry.histogram('c', { labels: ['le'] })).toThrow(/reserved/);
+			expect(() => registry.summary('d', { labels: ['quantile'] })).toThrow(/reserved/);
+		});
+	});
+
+	describe('counter', () => {
+		it('increments with and without labels', () => {
+			const plain = registry.counter('plain_total');
+			plain.inc();
+			plain.inc(4);
+			expect(plain.get()).toBe(5);
+
+			const labeled = registry.counter('labeled_total', { labels: ['path'] });
+			labeled.inc({ path: '/a' });
+			labeled.inc({ path: '/a' }, 2);
+			expect(labeled.get({ path: '/a' })).toBe(3);
+			expect(labeled.get({ path: '/b' })).toBe(0);
+		});
+
+		it('refuses to decrease', () => {
+			expect(() => registry.counter('x_total').inc(-1)).toThrow(/cannot decrease/);
+		});
+
+		it('validates label sets', () => {
+			const c = registry.counter('x_total', { labels: ['path'] });
+			expect(() => c.inc({ route: '/' })).toThrow(/expects labels/);
+			expect(() => c.inc()).toThrow(/expects labels/);
+		});
+	});
+
+	describe('gauge', () => {
+		it('supports set, inc and dec', () => {
+			const g = registry.gauge('depth', { labels: ['queue'] });
+			g.set({ queue: 'q' }, 10);
+			g.inc({ queue: 'q' }, 2);
+			g.dec({ queue: 'q' });
+			expect(g.get({ queue: 'q' })).toBe(11);
+		});
+
+		it('runs collect hooks on snapshot', () => {
+			let value = 3;
+			registry.gauge('live', { collect: (g) => g.set(value) });
+			value = 8;
+			expect(registry.snapshot()[0].series[0].value).toBe(8);
+		});
+	});
+
+	describe('histogram', () => {
+		it('observes values into configured buckets', () => {
+			const h = registry.histogram('latency', { buckets: [10, 100], labels: ['route'] });
+			h.observe({ route: '/' }, 5);
+			h.observe({ route: '/' }, 50);
+			const series = registry.snapshot()[0].series[0];
+			expect(series.histogram!.buckets).toEqual([
+				{ le: 10, count: 1 },
+				{ le: 100, count: 2 },
+			]);
+		});
+
+		it('merges all series', () => {
+			const h = registry.histogram('latency', { buckets: [10], labels: ['route'] });
+			h.observe({ route: '/a' }, 5);
+			h.observe({ route: '/b' }, 50);
+			expect(h.merged().snapshot().count).toBe(2);
+		});
+	});
+
+	describe('summary', () => {
+		it('reports quantiles over recent samples', () => {
+			const s = registry.summary('size', { quantiles: [0.5, 0.9], maxSamples: 100 });
+			for (let i = 1; i <= 100; i++) s.observe(i);
+			const summary = registry.snapshot()[0].series[0].summary!;
+			expect(summary.count).toBe(100);
+			expect(summary.sum).toBe(5050);
+			expect(summary.quantiles).toEqual([
+				{ quantile: 0.5, value: 51 },
+				{ quantile: 0.9, value: 91 },
+			]);
+		});
+	});
+
+	describe('cardinality limits', () => {
+		it('folds excess series into an overflow series and warns once', () => {
+			const warn = vi.fn();
+			configureMetrics({
+				getLogger: () => ({ info: vi.fn(), warn, error: vi.fn(), debug: vi.fn() }),
+			});
+			const c = registry.counter('hits_total', { labels: ['path'], maxSeries: 2 });
+			c.inc({ path: '/a' });
+			c.inc({ path: '/b' });
+			c.inc({ path: '/c' });
+			c.inc({ path: '/d' });
+			expect(c.get({ path: '__overflow__' })).toBe(2);
+			expect(registry.snapshot()[0].series).toHaveLength(3);
+			expect(warn).toHaveBeenCalledTimes(1);
+		});
+
+		it('defaults to maxSeriesPerMetric from config', () => {
+			configureMetrics({ maxSeriesPerMetric: 1 });
+			const c = registry.counter('hits_total', { labels: ['path'] });
+			c.inc({ path: '/a' });
+			c.inc({ path: '/b' });
+			expect(c.get({ path: '__overflow__' })).toBe(1);
+		});
+	});
+
+	describe('serialize and restore', () => {
+		it('round-trips counters, gauges and histograms', () => {
+			registry.counter('c_total', { labels: ['k'] }).inc({ k: 'v' }, 3);
+			registry.gauge('g').set(2);
+			registry.histogram('h', { buckets: [10] }).observe(4);
+			const data = registry.serialize();
+
+			const restored = new MetricsRegistry();
+			restored.restore(data);
+			expect(restored.counter('c_total', { labels: ['k'] }).get({ k: 'v' })).toBe(3);
+			expect(restored.gauge('g').get()).toBe(2);
+			expect(restored.histogram('h', { buckets: [10] }).merged().snapshot().count).toBe(1);
+		});
+
+		it('round-trips summaries and combines them with live observations', () => {
+			const s = registry.summary('size', { quantiles: [0.5], maxSamples: 3 });
+			[1, 2, 3].forEach((v) => s.observe(v));
+			const data = registry.serialize();
+
+			const restored = new MetricsRegistry();
+			const live = restored.summary('size', { quantiles: [0.5], maxSamples: 3 });
+			live.observe(10);
+			restored.restore(data);
+			expect(restored.snapshot()[0].series[0].summary).toEqual({
+				count: 4,
+				sum: 16,
+				quantiles: [{ quantile: 0.5, value: 3 }],
+			});
+		});
+
+		it('skips metrics registered with persist: false', () => {
+			registry.counter('kept_total').inc();
+			registry.counter('dropped_total', { persist: false }).inc();
+			expect(registry.serialize().map((m) => m.name)).toEqual(['kept_total']);
+		});
+
+		it('adds restored counters to live values and keeps live gauge writes', () => {
+			registry.counter('c_total').inc(2);
+			registry.gauge('g').set(5);
+			registry.restore([
+				{ name: 'c_total', type: 'counter', series: [{ labels: {}, value: 3 }] },
+				{ name: 'g', type: 'gauge', series: [{ labels: {}, value: 9 }] },
+			]);
+			expect(registry.counter('c_total').get()).toBe(5);
+			expect(registry.gauge('g').get()).toBe(5);
+		});
+
+		it('keeps unclaimed restored metrics for the next serialize', () => {
+			registry.restore([{ name: 'later_total', type: 'counter', series: [{ labels: {}, value: 1 }] }]);
+			expect(registry.serialize().map((m) => m.name)).toEqual(['later_total']);
+		});
+	});
+
+	describe('mergeSerializedMetrics', () => {
+		it('sums values and merges histograms series by series', () => {
+			const merged = mergeSerializedMetrics(
+				{ name: 'c', type: 'counter', series: [{ labels: { k: 'a' }, value: 1 }] },
+				{
+					name: 'c',
+					type: 'counter',
+					series: [
+						{ labels: { k: 'a' }, value: 2 },
+						{ labels: { k: 'b' }, value: 4 },
+					],
+				},
+			);
+			expect(merged.series).toEqual([
+				{ labels: { k: 'a' }, value: 3 },
+				{ labels: { k: 'b' }, value: 4 },
+			]);
+
+			const h = new MetricsRegistry().histogram('h', { buckets: [10] });
+			h.observe(4);
+			const twice = mergeSerializedMetrics(h.serialize(), h.serialize());
+			expect(twice.series[0].histogram!.count).toBe(2);
+		});
+
+		it('merges summary series', () => {
+			const s = new MetricsRegistry().summary('s', { maxSamples: 2 });
+			s.observe(4);
+			const twice = mergeSerializedMetrics(s.serialize(), s.serialize());
+			expect(twice.series[0].summary).toEqual({ samples: [4, 4], count: 2, sum: 8 });
+		});
+
+		it('refuses to merge different metrics', () => {
+			expect(() =>
+				mergeSerializedMetrics(
+					{ name: 'a', type: 'counter', series: [] },
+					{ name: 'a', type: 'gauge', series: [] },
+				),
+			).toThrow();
+		});
+
+		it('merges repeated restores of unregistered metrics', () => {
+			const entry = { name: 'later_total', type: 'counter' as const, series: [{ labels: {}, value: 1 }] };
+			registry.restore([entry]);
+			registry.restore([entry]);
+			expect(registry.counter('later_total').get()).toBe(2);
+		});
+	});
+
+	describe('toPrometheusFamilies', () => {
+		it('prefixes names with the namespace and emits summaries', () => {
+			registry.summary('size', { quantiles: [0.5] }).observe(3);
+			const [family] = registry.toPrometheusFamilies('app');
+			expect(family.name).toBe('app_size');
+			expect(family.type).toBe('summary');
+			expect(family.samples).toEqual([
+				{ labels: { quantile: '0.5' }, value: 3 },
+				{ suffix: '_sum', labels: {}, value: 3 },
+				{ suffix: '_count', labels: {}, value: 1 },
+			]);
+		});
+	});
+});
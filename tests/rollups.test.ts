@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ROLLUP_RESOLUTION_MS, RollupStore } from '../src/rollups.js';
+
+const MINUTE = ROLLUP_RESOLUTION_MS.minute;
+const HOUR = ROLLUP_RESOLUTION_MS.hour;
+const DAY = ROLLUP_RESOLUTION_MS.day;
+const T0 = Date.UTC(2024, 0, 1);
+
+describe('RollupStore', () => {
+	let store: RollupStore;
+
+	beforeEach(() => {
+		store = new RollupStore({ minute: 60, hour: 48, day: 30 });
+	});
+
+	it('records page views into every resolution', () => {
+		store.recordPageView('s1', '/a', T0 + 5 * MINUTE);
+		store.recordPageView('s2', '/a', T0 + 5 * MINUTE + 1000);
+		expect(store.bucketsBetween('minute', T0, T0 + HOUR)).toHaveLength(1);
+		expect(store.bucketsBetween('hour', T0, T0 + HOUR)[0].pageViews).toBe(2);
+		expect(store.bucketsBetween('day', T0, T0 + DAY)[0].visitors.size).toBe(2);
+	});
+
+	it('picks the finest resolution that still covers the range', () => {
+		const now = T0 + 2 * DAY;
+		store.recordPageView('s1', '/a', now);
+		expect(store.resolutionFor(now - 30 * MINUTE)).toBe('minute');
+		expect(store.resolutionFor(now - 24 * HOUR)).toBe('hour');
+		expect(store.resolutionFor(now - 7 * DAY)).toBe('day');
+	});
+
+	it('unions unique visitors across buckets', () => {
+		store.recordPageView('s1', '/a', T0);
+		store.recordPageView('s1', '/a', T0 + 10 * MINUTE);
+		store.recordPageView('s2', '/b', T0 + 20 * MINUTE);
+		const result = store.aggregate(T0, T0 + HOUR, 'minute');
+		expect(result.pageViews).toBe(3);
+		expect(result.uniqueVisitors).toBe(2);
+		expect(result.topPages[0]).toMatchObject({ path: '/a', views: 2, uniqueVisitors: 1 });
+	});
+
+	it('aggregates errors and traffic sources', () => {
+		store.recordError(T0);
+		store.recordError(T0 + MINUTE);
+		store.recordSession('Search', T0);
+		store.recordSession('Search', T0);
+		store.recordSession('Direct', T0);
+		const result = store.aggregate(T0, T0 + HOUR, 'minute');
+		expect(result.errors).toBe(2);
+		expect(result.trafficSources[0]).toMatchObject({ source: 'Search', visits: 2 });
+	});
+
+	it('drops buckets beyond the retention limit', () => {
+		store.recordPageView('s1', '/a', T0);
+		store.recordPageView('s1', '/a', T0 + 2 * HOUR);
+		expect(store.bucketsBetween('minute', T0, T0 + 3 * HOUR)).toHaveLength(1);
+		expect(store.bucketsBetween('hour', T0, T0 + 3 * HOUR)).toHaveLength(2);
+	});
+
+	it('round-trips through serialize and restore', () => {
+		store.recordPageView('s1', '/a', T0);
+		store.recordSession('Direct', T0);
+		store.recordError(T0);
+		const restored = new RollupStore({ minute: 60, hour: 48, day: 30 });
+		restored.restore(JSON.parse(JSON.stringify(store.serialize())), T0 + MINUTE);
+		const result = restored.aggregate(T0, T0 + MINUTE, 'minute');
+		expect(result).toMatchObject({ pageViews: 1, uniqueVisitors: 1, errors: 1 });
+		expect(result.trafficSources).toEqual([
+			{ source: 'Direct', visits: 1, percentage: 100 },
+		]);
+	});
+
+	describe('series', () => {
+		it('returns evenly stepped points with zero-filled gaps', () => {
+			store.recordPageView('s1', '/a', T0 + 30 * 1000);
+			store.recordPageView('s2', '/a', T0 + 3 * MINUTE);
+			const points = store.series('pageViews', T0, T0 + 5 * MINUTE);
+			expect(points).toEqual([
+				[T0, 1],
+				[T0 + MINUTE, 0],
+				[T0 + 2 * MINUTE, 0],
+				[T0 + 3 * MINUTE, 1],
+				[T0 + 4 * MINUTE, 0],
+			]);
+		});
+
+		it('sums buckets into wider steps', () => {
+			store.recordRequest('/a', T0);
+			store.recordRequest('/a', T0 + MINUTE);
+			store.recordRequest('/b', T0 + 6 * MINUTE);
+			const points = store.series('requests', T0, T0 + 10 * MINUTE, 5 * MINUTE);
+			expect(points).toEqual([
+				[T0, 2],
+				[T0 + 5 * MINUTE, 1],
+			]);
+		});
+
+		it('keeps requests separate from page views and filters them by path', () => {
+			store.recordPageView('s1', '/a', T0);
+			store.recordRequest('/api', T0);
+			store.recordRequest('/api', T0 + 1000);
+			store.recordRequest('/a', T0 + 2000);
+			expect(store.series('pageViews', T0, T0 + MINUTE)).toEqual([[T0, 1]]);
+			expect(store.series('requests', T0, T0 + MINUTE)).toEqual([[T0, 3]]);
+			expect(store.series('requests', T0, T0 + MINUTE, undefined, '/api')).toEqual([[T0, 2]]);
+
+			const restored = new RollupStore({ minute: 60, hour: 48, day: 30 });
+			restored.restore(store.serialize(), T0);
+			expect(restored.series('requests', T0, T0 + MINUTE, undefined, '/api')).toEqual([[T0, 2]]);
+		});
+
+		it('rounds steps up to the bucket resolution', () => {
+			store.recordPageView('s1', '/a', T0);
+			const points = store.series('pageViews', T0, T0 + 2 * MINUTE, 1000);
+			expect(points).toHaveLength(2);
+		});
+
+		it('counts distinct visitors per step', () => {
+			store.recordPageView('s1', '/a', T0);
+			store.recordPageView('s1', '/b', T0 + 1000);
+			store.recordPageView('s2', '/a', T0 + 2000);
+			expect(store.series('uniqueVisitors', T0, T0 + MINUTE)).toEqual([[T0, 2]]);
+		});
+
+		it('filters page views and visitors by path', () => {
+			store.recordPageView('s1', '/a', T0);
+			store.recordPageView('s2', '/b', T0);
+			store.recordPageView('s3', '/b', T0);
+			expect(store.series('pageViews', T0, T0 + MINUTE, undefined, '/b')).toEqual([[T0, 2]]);
+			expect(store.series('uniqueVisitors', T0, T0 + MINUTE, undefined, '/a')).toEqual([[T0, 1]]);
+		});
+
+		it('reports sessions active within the trailing 30 minutes', () => {
+			store.recordPageView('s1', '/a', T0);
+			store.recordPageView('s2', '/a', T0 + 20 * MINUTE);
+			const points = store.series('activeSessions', T0, T0 + 40 * MINUTE, 10 * MINUTE);
+			expect(points.map(([, v]) => v)).toEqual([1, 1, 2, 1]);
+		});
+
+		it('counts errors', () => {
+			store.recordError(T0);
+			store.recordError(T0 + MINUTE);
+			expect(store.series('errors', T0, T0 + 2 * MINUTE)).toEqual([
+				[T0, 1],
+				[T0 + MINUTE, 1],
+			]);
+		});
+
+		it('filters errors by path and keeps them across restore', () => {
+			store.recordError(T0, '/a');
+			store.recordError(T0, '/b');
+			store.recordError(T0 + MINUTE, '/a');
+			store.recordError(T0 + MINUTE);
+			expect(store.series('errors', T0, T0 + 2 * MINUTE, undefined, '/a')).toEqual([
+				[T0, 1],
+				[T0 + MINUTE, 1],
+			]);
+
+			const restored = new RollupStore({ minute: 60, hour: 48, day: 30 });
+			restored.restore(JSON.parse(JSON.stringify(store.serialize())), T0 + MINUTE);
+			expect(restored.series('errors', T0, T0 + 2 * MINUTE, undefined, '/b')).toEqual([
+				[T0, 1],
+				[T0 + MINUTE, 0],
+			]);
+		});
+
+		it('rejects ranges with too many points', () => {
+			const big = new RollupStore({ minute: 1_000_000, hour: 48, day: 30 });
+			expect(() => big.series('pageViews', T0, T0 + 20000 * MINUTE)).toThrow(/points/);
+		});
+	});
+});
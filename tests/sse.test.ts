@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { SseParser, encodeSseMessage, parseSse } from '../src/sse.js';
+
+describe('encodeSseMessage', () => {
+	it('writes event, id, retry and data fields', () => {
+		expect(encodeSseMessage({ event: 'metrics', id: '7', retry: 3000, data: '{}' })).toBe(
+			'event: metrics\nid: 7\nretry: 3000\ndata: {}\n\n',
+		);
+	});
+
+	it('splits multi-line data on every line break style', () => {
+		expect(encodeSseMessage({ data: 'a\nb\r\nc\rd' })).toBe('data: a\ndata: b\ndata: c\ndata: d\n\n');
+	});
+
+	it('keeps empty data lines', () => {
+		expect(encodeSseMessage({ data: '' })).toBe('data: \n\n');
+		expect(encodeSseMessage({ data: 'a\n' })).toBe('data: a\ndata: \n\n');
+	});
+
+	it('writes comments', () => {
+		expect(encodeSseMessage({ comment: 'ping' })).toBe(': ping\n\n');
+	});
+
+	it('rejects fields that would break framing', () => {
+		expect(() => encodeSseMessage({ id: 'a\nb' })).toThrow();
+		expect(() => encodeSseMessage({ event: 'a\rb' })).toThrow();
+		expect(() => encodeSseMessage({ retry: -1 })).toThrow();
+	});
+});
+
+describe('SseParser', () => {
+	it('round-trips encoded messages', () => {
+		const message = { event: 'logs', id: '3', data: 'line 1\nline 2' };
+		expect(parseSse(encodeSseMessage(message))).toEqual([message]);
+	});
+
+	it('defaults the event type to message and carries the last id forward', () => {
+		expect(parseSse('id: 1\ndata: a\n\ndata: b\n\n')).toEqual([
+			{ id: '1', event: 'message', data: 'a' },
+			{ id: '1', event: 'message', data: 'b' },
+		]);
+	});
+
+	it('handles fields split across chunks and CRLF split between chunks', () => {
+		const parser = new SseParser();
+		expect(parser.push('da')).toEqual([]);
+		expect(parser.push('ta: hel')).toEqual([]);
+		expect(parser.push('lo\r')).toEqual([]);
+		expect(parser.push('\n\r\n')).toEqual([{ id: '', event: 'message', data: 'hello' }]);
+	});
+
+	it('follows the spec for comments, spaces, unknown fields and bare field names', () => {
+		expect(parseSse(': comment\nfoo: bar\ndata:no-space\ndata\ndata:  two\n\n')).toEqual([
+			{ id: '', event: 'message', data: 'no-space\n\n two' },
+		]);
+	});
+
+	it('ignores non-numeric retry values and ids containing NULL', () => {
+		expect(parseSse('retry: 1x\nid: a\0b\ndata: x\n\n')).toEqual([{ id: '', event: 'message', data: 'x' }]);
+		expect(parseSse('retry: 250\n\n')).toEqual([{ retry: 250 }]);
+	});
+
+	it('does not dispatch events without data', () => {
+		expect(parseSse('event: metrics\n\n')).toEqual([]);
+	});
+
+	it('strips a leading byte order mark', () => {
+		expect(parseSse('\uFEFFdata: x\n\n')).toEqual([{ id: '', event: 'message', data: 'x' }]);
+	});
+
+	it('drops an unterminated trailing message', () => {
+		expect(parseSse('data: x\n')).toEqual([]);
+	});
+});
@@ -0,0 +1,280 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { configureMetrics, getMetricsConfig, resetMetricsConfig } from '../src/config.js';
+import { createMetricsCollector } from '../src/metrics-collector.js';
+import {
+	JsonFileStore,
+	METRICS_SCHEMA_VERSION,
+	MemoryStore,
+	createMetricsStore,
+	migrateEnvelope,
+} from '../src/store.js';
+import { SqliteStore } from '../src/sqlite-store.js';
+import type { PersistedMetrics } from '../src/types.js';
+
+const hasSqlite = await import('node:sqlite').then(
+	() => true,
+	() => false,
+);
+
+const sample: PersistedMetrics = {
+	pages: [{ path: '/a', views: 2, uniqueVisitors: ['s1'], lastAccessed: '2024-01-01T00:00:00.000Z' }],
+	sessions: [
+		{
+			sessionId: 's1',
+			startTime: '2024-01-01T00:00:00.000Z',
+			lastActivity: '2024-01-01T00:01:00.000Z',
+			pageViews: 2,
+			pages: ['/a'],
+		},
+	],
+	registry: [{ name: 'signups_total', type: 'counter', series: [{ labels: {}, value: 3 }] }],
+	rollups: {
+		minute: [
+			{
+				start: 1704067200000,
+				pageViews: 2,
+				requests: 2,
+				errors: 0,
+				visitors: ['s1'],
+				pages: [{ path: '/a', views: 2, visitors: ['s1'] }],
+				sources: [{ source: 'Direct', visits: 1 }],
+			},
+		],
+		hour: [],
+		day: [],
+	},
+	errorGroups: [
+		{
+			fingerprint: '0123456789abcdef',
+			type: 'TypeError',
+			message: 'x is undefined',
+			count: 2,
+			paths: [{ path: '/a', count: 2 }],
+			statuses: [{ status: 500, count: 2 }],
+			sessions: ['s1'],
+			firstSeen: '2024-01-01T00:00:00.000Z',
+			lastSeen: '2024-01-01T00:01:00.000Z',
+		},
+	],
+	journalSeq: 4,
+};
+
+describe('metrics stores', () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		resetMetricsConfig();
+		dir = await mkdtemp(join(tmpdir(), 'tinyland-metrics-'));
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	describe('JsonFileStore', () => {
+		it('returns an empty snapshot when no files exist', async () => {
+			expect(await new JsonFileStore(dir).load()).toEqual({});
+		});
+
+		it('round-trips data through a versioned envelope', async () => {
+			const store = new JsonFileStore(dir);
+			await store.save(sample);
+			const envelope = JSON.parse(await readFile(join(dir, 'metrics.json'), 'utf-8'));
+			expect(envelope.version).toBe(METRICS_SCHEMA_VERSION);
+			expect(typeof envelope.writtenAt).toBe('string');
+			expect(envelope.pages).toEqual(sample.pages);
+			expect(await store.load()).toEqual(sample);
+		});
+
+		it('creates a missing data directory and leaves no temp files', async () => {
+			const nested = join(dir, 'a', 'b');
+			await new JsonFileStore(nested).save(sample);
+			expect(await readdir(nested)).toEqual(['metrics.json']);
+		});
+
+		it('migrates the legacy bare-array files', async () => {
+			await writeFile(join(dir, 'page-metrics.json'), JSON.stringify(sample.pages));
+			await writeFile(join(dir, 'session-metrics.json'), JSON.stringify(sample.sessions));
+			const loaded = await new JsonFileStore(dir).load();
+			expect(loaded.pages).toEqual(sample.pages);
+			expect(loaded.sessions).toEqual(sample.sessions);
+		});
+
+		it('retires legacy files once the migrated envelope is written', async () => {
+			await writeFile(join(dir, 'page-metrics.json'), JSON.stringify(sample.pages));
+			const store = new JsonFileStore(dir);
+			await store.save(await store.load());
+
+			expect((await readdir(dir)).sort()).toEqual(['metrics.json', 'page-metrics.json.migrated']);
+			expect((await new JsonFileStore(dir).load()).pages).toEqual(sample.pages);
+		});
+
+		it('does not fall back to legacy files when the envelope is corrupt', async () => {
+			await writeFile(join(dir, 'page-metrics.json'), JSON.stringify([{ ...sample.pages![0], path: '/old', views: 999 }]));
+			await writeFile(join(dir, 'metrics.json'), '{"version":1,"pages":[{"pa');
+			const info = vi.fn();
+			configureMetrics({
+				getLogger: () => ({ info, warn: vi.fn(), error: vi.fn(), debug: vi.fn() }),
+			});
+
+			expect(await new JsonFileStore(dir).load()).toEqual({});
+			expect(info).not.toHaveBeenCalledWith('[JsonFileStore] Migrating legacy metrics files', expect.anything());
+		});
+
+		it('prefers the envelope over legacy files', async () => {
+			await writeFile(join(dir, 'page-metrics.json'), JSON.stringify([]));
+			const store = new JsonFileStore(dir);
+			await store.save(sample);
+			expect((await store.load()).pages).toEqual(sample.pages);
+		});
+
+		it('quarantines a corrupt envelope and reports the loss', async () => {
+			const error = vi.fn();
+			configureMetrics({
+				getLogger: () => ({ info: vi.fn(), warn: vi.fn(), error, debug: vi.fn() }),
+			});
+			await writeFile(join(dir, 'metrics.json'), '{"version":1,"pages":[{"pa');
+			const loaded = await new JsonFileStore(dir).load();
+			expect(loaded).toEqual({});
+			const files = await readdir(dir);
+			expect(files).not.toContain('metrics.json');
+			expect(files.some((f) => f.startsWith('metrics.json.corrupt-'))).toBe(true);
+			expect(error).toHaveBeenCalledWith(
+				'[JsonFileStore] Quarantined corrupt metrics file',
+				expect.objectContaining({ file: join(dir, 'metrics.json') }),
+			);
+		});
+
+		it('quarantines files with an unexpected structure', async () => {
+			await writeFile(join(dir, 'metrics.json'), JSON.stringify({ hello: 'world' }));
+			await new JsonFileStore(dir).load();
+			expect((await readdir(dir)).some((f) => f.startsWith('metrics.json.corrupt-'))).toBe(true);
+		});
+
+		it('refuses envelopes from a newer schema version', async () => {
+			await writeFile(
+				join(dir, 'metrics.json'),
+				JSON.stringify({ version: 99, writtenAt: '', pages: [], sessions: [] }),
+			);
+			await expect(new JsonFileStore(dir).load()).rejects.toThrow(/newer/);
+		});
+	});
+
+	describe('migrateEnvelope', () => {
+		it('upgrades version 0 data to the current version', () => {
+			const migrated = migrateEnvelope({ version: 0, writtenAt: '', pages: sample.pages });
+			expect(migrated.version).toBe(METRICS_SCHEMA_VERSION);
+			expect(migrated.sessions).toEqual([]);
+		});
+	});
+
+	describe('MemoryStore', () => {
+		it('round-trips data without sharing references', async () => {
+			const store = new MemoryStore();
+			await store.save(sample);
+			const loaded = await store.load();
+			expect(loaded).toEqual(sample);
+			loaded.pages![0].views = 99;
+			expect((await store.load()).pages![0].views).toBe(2);
+		});
+	});
+
+	describe.skipIf(!hasSqlite)('SqliteStore', () => {
+		it('round-trips data', async () => {
+			const store = new SqliteStore(join(dir, 'metrics.sqlite'));
+			await store.save(sample);
+			expect(await store.load()).toEqual(sample);
+			await store.close();
+		});
+
+		it('keeps rollup history and replaces sessions across saves', async () => {
+			const file = join(dir, 'metrics.sqlite');
+			const store = new SqliteStore(file);
+			await store.save(sample);
+			await store.save({
+				...sample,
+				sessions: [],
+				rollups: { minute: [{ ...sample.rollups!.minute[0], start: 1704067260000 }], hour: [], day: [] },
+			});
+			await store.close();
+
+			const reopened = new SqliteStore(file);
+			const loaded = await reopened.load();
+			expect(loaded.sessions).toEqual([]);
+			expect(loaded.rollups!.minute.map((b) => b.start)).toEqual([1704067200000, 1704067260000]);
+			await reopened.close();
+		});
+
+		it('only rewrites rows that changed since the last save', async () => {
+			const file = join(dir, 'metrics.sqlite');
+			const store = new SqliteStore(file);
+			await store.save(sample);
+
+			const { DatabaseSync } = await import('node:sqlite');
+			const db = new DatabaseSync(file);
+			db.prepare('UPDATE pages SET data = ? WHERE path = ?').run('"untouched"', '/a');
+			db.prepare('UPDATE sessions SET data = ? WHERE session_id = ?').run('"untouched"', 's1');
+
+			await store.save({ ...sample, pages: [{ ...sample.pages![0], views: 3 }] });
+			const rows = (table: string) => db.prepare(`SELECT data FROM ${table}`).all().map((row) => row.data);
+			expect(JSON.parse(rows('pages')[0] as string).views).toBe(3);
+			expect(rows('sessions')).toEqual(['"untouched"']);
+			db.close();
+			await store.close();
+		});
+
+		it('prunes rollup rows that fall outside the retention', async () => {
+			const file = join(dir, 'metrics.sqlite');
+			const store = new SqliteStore(file, { minute: 2, hour: 24, day: 30 });
+			const bucket = sample.rollups!.minute[0];
+			const minute = (offset: number) => ({ ...bucket, start: bucket.start + offset * 60000 });
+			await store.save({ ...sample, rollups: { minute: [minute(0), minute(1)], hour: [], day: [] } });
+			await store.save({ ...sample, rollups: { minute: [minute(4), minute(5)], hour: [], day: [] } });
+			await store.close();
+
+			const reopened = new SqliteStore(file);
+			const loaded = await reopened.load();
+			expect(loaded.rollups!.minute.map((b) => b.start)).toEqual([minute(4).start, minute(5).start]);
+			await reopened.close();
+		});
+	});
+
+	describe('createMetricsStore', () => {
+		it('defaults to the JSON file store', () => {
+			expect(createMetricsStore(getMetricsConfig())).toBeInstanceOf(JsonFileStore);
+		});
+
+		it('selects the memory and sqlite stores by name', () => {
+			configureMetrics({ store: 'memory' });
+			expect(createMetricsStore(getMetricsConfig())).toBeInstanceOf(MemoryStore);
+			configureMetrics({ store: 'sqlite' });
+			expect(createMetricsStore(getMetricsConfig())).toBeInstanceOf(SqliteStore);
+		});
+
+		it('accepts a custom store instance', () => {
+			const custom = new MemoryStore();
+			configureMetrics({ store: custom });
+			expect(createMetricsStore(getMetricsConfig())).toBe(custom);
+		});
+	});
+
+	describe('MetricsCollector with a configured store', () => {
+		it('loads from and persists to the store', async () => {
+			const store = new MemoryStore(sample);
+			configureMetrics({ store });
+			const collector = createMetricsCollector();
+			await collector.loadPersistedData();
+			expect(collector.getMetrics().pageViews).toBe(2);
+			expect(collector.getSessionMetrics('s1')!.pageViews).toBe(2);
+
+			collector.trackPageView('s2', '/b');
+			await collector.persistData();
+			const saved = await store.load();
+			expect(saved.pages!.map((p) => p.path).sort()).toEqual(['/a', '/b']);
+			collector.destroy();
+		});
+	});
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { MetricsCollector } from '../src/metrics-collector.js';
+import {
+	VitalsAggregator,
+	createVitalsHandler,
+	normalizeVitalPath,
+	parseVitalsPayload,
+	rateWebVital,
+} from '../src/vitals.js';
+
+const post = (body: string, headers: Record<string, string> = {}) =>
+	new Request('http://localhost/vitals', { method: 'POST', body, headers });
+
+describe('rateWebVital', () => {
+	it('applies the published thresholds inclusively', () => {
+		expect(rateWebVital('LCP', 2500)).toBe('good');
+		expect(rateWebVital('LCP', 2501)).toBe('needs-improvement');
+		expect(rateWebVital('LCP', 4001)).toBe('poor');
+		expect(rateWebVital('CLS', 0.1)).toBe('good');
+		expect(rateWebVital('CLS', 0.3)).toBe('poor');
+		expect(rateWebVital('INP', 350)).toBe('needs-improvement');
+	});
+});
+
+describe('normalizeVitalPath', () => {
+	it('strips origins, query strings and fragments', () => {
+		expect(normalizeVitalPath('https://example.com/blog/post?ref=x#top')).toBe('/blog/post');
+		expect(normalizeVitalPath('/pricing?plan=pro')).toBe('/pricing');
+	});
+});
+
+describe('VitalsAggregator', () => {
+	it('reports p75 and rating distribution per metric', () => {
+		const vitals = new VitalsAggregator();
+		[1000, 2000, 3000, 5000].forEach((value) => vitals.record({ name: 'LCP', value, path: '/' }));
+		vitals.record({ name: 'CLS', value: 0.05, path: '/' });
+
+		expect(vitals.summary()).toEqual([
+			{
+				name: 'LCP',
+				count: 4,
+				p75: 3000,
+				rating: 'needs-improvement',
+				distribution: { good: 50, needsImprovement: 25, poor: 25 },
+			},
+			{
+				name: 'CLS',
+				count: 1,
+				p75: 0.05,
+				rating: 'good',
+				distribution: { good: 100, needsImprovement: 0, poor: 0 },
+			},
+		]);
+	});
+
+	it('breaks down vitals by normalized path, busiest first', () => {
+		const vitals = new VitalsAggregator();
+		vitals.record({ name: 'TTFB', value: 100, path: '/a?x=1' });
+		vitals.record({ name: 'TTFB', value: 2000, path: '/b' });
+		vitals.record({ name: 'FCP', value: 900, path: '/b' });
+
+		const report = vitals.report();
+		expect(report.pages.map((page) => page.path)).toEqual(['/b', '/a']);
+		expect(report.pages[1].vitals).toEqual([expect.objectContaining({ name: 'TTFB', p75: 100, rating: 'good' })]);
+		expect(report.overall.find((v) => v.name === 'TTFB')?.count).toBe(2);
+	});
+
+	it('bounds retained samples while keeping cumulative counts', () => {
+		const vitals = new VitalsAggregator({ maxSamples: 2 });
+		vitals.record({ name: 'INP', value: 900, path: '/' });
+		vitals.record({ name: 'INP', value: 100, path: '/' });
+		vitals.record({ name: 'INP', value: 120, path: '/' });
+
+		const [inp] = vitals.summary();
+		expect(inp.count).toBe(3);
+		expect(inp.p75).toBe(120);
+		expect(inp.distribution.poor).toBeCloseTo(100 / 3);
+	});
+
+	it('evicts the least recently seen path beyond the limit', () => {
+		const vitals = new VitalsAggregator({ maxPaths: 2 });
+		vitals.record({ name: 'LCP', value: 1, path: '/a' }, 1000);
+		vitals.record({ name: 'LCP', value: 1, path: '/b' }, 2000);
+		vitals.record({ name: 'LCP', value: 1, path: '/a' }, 3000);
+		vitals.record({ name: 'LCP', value: 1, path: '/c' }, 4000);
+
+		expect(vitals.report().pages.map((page) => page.path).sort()).toEqual(['/a', '/c']);
+		expect(vitals.summary()[0].count).toBe(4);
+	});
+});
+
+describe('parseVitalsPayload', () => {
+	it('accepts arrays, sample envelopes and single samples', () => {
+		const sample = { name: 'LCP', value: 1200, url: 'https://example.com/x', sessionId: 's1' };
+		expect(parseVitalsPayload([sample]).samples).toEqual([
+			{ name: 'LCP', value: 1200, path: 'https://example.com/x', sessionId: 's1' },
+		]);
+		expect(parseVitalsPayload({ samples: [sample] }).samples).toHaveLength(1);
+		expect(parseVitalsPayload(sample).samples).toHaveLength(1);
+	});
+
+	it('rejects unknown names and invalid values', () => {
+		const result = parseVitalsPayload([
+			{ name: 'FID', value: 10, path: '/' },
+			{ name: 'toString', value: 10, path: '/' },
+			{ name: 'LCP', value: -1, path: '/' },
+			{ name: 'LCP', value: 'fast', path: '/' },
+			{ name: 'LCP', value: 10 },
+			null,
+			{ name: 'CLS', value: 0, path: '/' },
+		]);
+		expect(result.samples).toHaveLength(1);
+		expect(result.rejected).toBe(6);
+	});
+});
+
+describe('createVitalsHandler', () => {
+	let collector: MetricsCollector;
+
+	afterEach(() => {
+		collector?.destroy();
+	});
+
+	it('feeds accepted samples into the collector', async () => {
+		collector = new MetricsCollector({ ephemeral: true });
+		const handler = createVitalsHandler(collector);
+		const response = await handler(
+			post(JSON.stringify([{ name: 'LCP', value: 1800, path: '/home' }, { name: 'XYZ', value: 1, path: '/' }])),
+		);
+
+		expect(response.status).toBe(202);
+		expect(await response.json()).toEqual({ accepted: 1, rejected: 1 });
+		expect(collector.getMetrics().webVitals).toEqual([expect.objectContaining({ name: 'LCP', p75: 1800 })]);
+		expect(collector.getVitalsReport().pages[0].path).toBe('/home');
+	});
+
+	it('rejects non-POST requests', async () => {
+		const handler = createVitalsHandler({ trackWebVitals: () => {} });
+		const response = await handler(new Request('http://localhost/vitals'));
+		expect(response.status).toBe(405);
+		expect(response.headers.get('Allow')).toBe('POST');
+	});
+
+	it('enforces body and batch size limits', async () => {
+		const handler = createVitalsHandler({ trackWebVitals: () => {} }, { maxBodyBytes: 64 });
+		expect((await handler(post('[]', { 'content-length': '1000' }))).status).toBe(413);
+		expect((await handler(post(' '.repeat(65)))).status).toBe(413);
+
+		const batched = createVitalsHandler({ trackWebVitals: () => {} }, { maxBatchSize: 2 });
+		const sample = { name: 'CLS', value: 0, path: '/' };
+		const response = await batched(post(JSON.stringify([sample, sample, sample])));
+		expect(response.status).toBe(413);
+		expect(await response.json()).toEqual({ error: 'Too many samples' });
+	});
+
+	it('rejects malformed JSON and batches with no valid samples', async () => {
+		const handler = createVitalsHandler({ trackWebVitals: () => {} });
+		expect((await handler(post('{not json'))).status).toBe(400);
+
+		const response = await handler(post(JSON.stringify([{ name: 'LCP' }])));
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({ error: 'No valid samples', rejected: 1 });
+	});
+});